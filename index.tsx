@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useRef, FormEvent, FC, ReactNode, ChangeEvent } from 'react';
+import React, { useState, useEffect, useRef, useMemo, FormEvent, FC, ReactNode, ChangeEvent } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Content, Part, Type } from '@google/genai';
+import { GoogleGenAI, Content, Part, Type, FileState, GroundingMetadata, GenerateContentResponse, Schema } from '@google/genai';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -9,29 +9,59 @@ const INITIAL_SYSTEM_INSTRUCTION = "You are a Foundational Agent, the 'brainstor
 const REFINEMENT_SYSTEM_INSTRUCTION = "You are a Refinement Agent, a 'skeptical expert' and adversarial collaborator. Your goal is to elevate a first draft to a new level of quality. Given the user's query and an initial response, your task is to challenge every assumption, deepen the analysis, and enhance clarity. Identify logical fallacies, superficial points, and weak arguments. Your output is not a critique; it is a completely rewritten, superior version of the draft. Add nuance, provide concrete examples, and introduce counter-arguments where appropriate to create a more robust and insightful response.";
 const SYNTHESIZER_SYSTEM_INSTRUCTION = "You are the Synthesizer Agent, the 'final editor and author'. Your mission is to produce the single, definitive response for the user. You will receive multiple, high-quality refined drafts. Your task is to cherry-pick the absolute best ideas, phrases, and structures from each, weaving them into a single, seamless, and perfectly coherent answer. Your final output must adopt a consistent and appropriate tone and be polished for presentation. Crucially, before concluding, you MUST perform a final verification step: meticulously compare your draft against the user's original query to guarantee that every single part of it has been fully and directly addressed. If you use the code interpreter tool, clearly state the code executed and its output in a structured way.";
 const PROMPT_REFINER_SYSTEM_INSTRUCTION = "You are the Prompt Refiner. Transform a raw user prompt into a clearer, complete, and actionable prompt. Your entire output, including the refined prompt, questions, and rationale, must be in the exact same language as the original user's prompt. Do not translate. Output format: (1) REFINED PROMPT — a single, improved prompt that preserves the user’s goal, constraints, and formatting; (2) QUESTIONS (if needed) — 3–5 concise questions only if critical info is missing; (3) RATIONALE (1–2 sentences) — what you improved (structure, clarity, specificity), no meta talk. Checklist you must apply: clarify goal, audience, output format, constraints, success criteria; keep tone/language/formatting; remove fluff, ambiguity, duplicates; add acceptance criteria when useful; avoid binding to specific tech unless the input demands it; be concise and direct; prefer imperative verbs.";
-const SUMMARIZER_SYSTEM_INSTRUCTION = "You are the Memory Agent. Your task is to extract the single most important, durable fact or preference about the user that will be useful for personalizing future conversations. Analyze the user's query and the final AI response. Condense the core insight into a single, concise, third-person statement (e.g., 'The user is a Python developer interested in data science libraries.'). Output only this sentence. IMPORTANT: Do not save transient or temporary information (e.g., 'The user asked for a recipe for cookies.'). Focus only on stable, long-term attributes.";
+const SUMMARIZER_SYSTEM_INSTRUCTION = "You are the Memory Agent. Your task is to extract the single most important, durable fact or preference about the user that will be useful for personalizing future conversations. Analyze the user's query and the final AI response. Condense the core insight into a single, concise, third-person statement (e.g., 'The user is a Python developer interested in data science libraries.'). IMPORTANT: Do not save transient or temporary information (e.g., 'The user asked for a recipe for cookies.'). Focus only on stable, long-term attributes. Never record credentials, passwords or keys, health information, or financial details such as income, debts or account numbers. If the prompt lists previously rejected memories, do not propose anything similar and respect the user's reasons. Output a JSON object with the keys 'memory' (the statement, or an empty string when there is nothing durable to remember) and 'category' (one of 'preference', 'fact', 'project' or 'other').";
 const SEARCH_REFINER_SYSTEM_INSTRUCTION = "You are a Search Query Refiner AI. Your task is to analyze the user's prompt and determine the best possible search query to find the most relevant information online. You must also generate clarifying questions to help the user narrow down their search if needed. Your output must be in the exact same language as the original user's prompt. Do not translate. Output format must be a JSON object with two keys: 'searchQuery' (a string with the optimal search query) and 'questions' (an array of 3-5 concise strings with clarifying questions).";
 const CRITIC_SYSTEM_INSTRUCTION = "You are the Critic Agent. Your task is to perform a final quality assurance check on a proposed answer against the user's original query. Your evaluation must be strict. Review against these five criteria: 1) Factual Accuracy, 2) Completeness (all parts of the query answered?), 3) Clarity & Readability, 4) Relevance, and 5) Tone. If the answer is flawless across all criteria, respond ONLY with the word 'PERFECT'. Otherwise, provide a concise, constructive, and actionable critique outlining the specific flaws. Your feedback is for another agent to make corrections; do not rewrite the answer yourself.";
 const PROACTIVE_ASSISTANT_SYSTEM_INSTRUCTION = "You are a Proactive Assistant AI. Your task is to analyze the user's query and the AI's final response to anticipate the user's next need. Generate 2-3 concise, relevant, and helpful follow-up suggestions as clickable prompts for the user. Frame them as questions or commands. For example: 'Write unit tests for this code.' or 'Can you suggest some restaurants for this trip?'. Your output must be a JSON array of strings. For example: `[\"Suggestion 1\", \"Suggestion 2\"]`. Do not add any other text or explanation. Only return the JSON array.";
+const RESEARCH_PLANNER_SYSTEM_INSTRUCTION = "You are the Research Planner. Break the user's question into focused, non-overlapping web search queries that together cover everything needed for a thorough, well-sourced answer: definitions, current facts and figures, competing viewpoints, and recent developments. Write each query the way an expert would type it into a search engine, in the language most likely to find authoritative sources. Output a JSON object with a single key 'queries' holding an array of query strings.";
+const CITATION_SYSTEM_INSTRUCTION = "You are the Citation Agent. You receive research notes, a numbered list of web sources, and the numbered sentences of a final answer. For every sentence, decide which sources support it, judging only by what the research notes attribute to each source. Cite a source only when it genuinely backs the sentence's claim; never guess. Mark 'needsSource' as false for sentences that make no factual claim (transitions, summaries of earlier sentences, advice, or opinions) and true otherwise. Output a JSON object with a key 'attributions' holding one object per sentence with the keys 'sentence' (its number), 'sources' (an array of source numbers, possibly empty) and 'needsSource'.";
+const HISTORY_SUMMARIZER_SYSTEM_INSTRUCTION = "You are the Conversation Summarizer. You receive the running summary of a conversation (possibly empty) and the turns that come right after it. Produce an updated summary that replaces the old one: keep every decision, fact, constraint, open question and piece of user-provided data that later turns might depend on, and drop pleasantries and repetition. Write it as compact notes in the same language as the conversation, never more than about 400 words. Output only the summary.";
+const RESEARCH_GAP_SYSTEM_INSTRUCTION = "You are the Research Analyst. You receive the user's question and the findings gathered so far, each with the search query that produced it. Identify the most important gaps: claims that are unsupported or contradictory, parts of the question that no finding addresses, and details that are too vague to be useful. Propose follow-up web search queries that would close those gaps. Never repeat a query that was already run. If the findings are sufficient, return an empty list. Output a JSON object with a single key 'followUpQueries' holding an array of query strings.";
 
 interface GenerationDetails {
   initial: string[];
   refined: string[];
+  initialAgentNumbers?: number[]; // Like StageRun.agentNumbers, set when some drafts are missing.
+  refinedAgentNumbers?: number[];
+  stages?: StageRun[];
+  research?: ResearchFinding[];
+  pipeline?: PipelineStage[]; // Stage definitions of the run, kept so single stages can be re-run later.
+  researchContext?: string; // Research results the stages were given.
+  searchQuery?: string; // Web search query confirmed by the user.
+  memoryRetrieval?: MemoryRetrievalInfo;
+  history?: HistoryBudgetInfo;
+  startedAt?: number;
+  trace?: TraceEntry[];
 }
 
+// Code execution results as some API versions return them; the SDK's Part type does not declare them.
+interface ToolCodeOutputsPart {
+  toolCodeOutputs: { outputs: { code?: string; outputs?: Part[] }[] };
+}
+
+const hasToolCodeOutputs = (part: Part): part is Part & ToolCodeOutputsPart => 'toolCodeOutputs' in part;
+
 interface ToolOutput {
   code: string;
   result: Part[];
 }
 
 interface Message {
+  id: string;
+  parentId?: string; // Absent on the first message of a conversation.
   role: 'user' | 'model';
   parts: Part[];
   sources?: { uri: string; title: string }[];
+  citations?: CitationSpan[];
   attachedFiles?: File[];
   isError?: boolean;
   generationDetails?: GenerationDetails;
   toolOutputs?: ToolOutput[];
+  isStreaming?: boolean;
+  isCancelled?: boolean;
+  usage?: UsageEntry[];
+  createdAt?: number;
+  researchMode?: ResearchMode; // Set on answers.
 }
 
 
@@ -39,6 +69,18 @@ interface Conversation {
     id: string;
     title: string;
     messages: Message[];
+    usage?: UsageEntry[]; // Calls that belong to no single answer, such as prompt and search refinement.
+    pinned?: boolean;
+    archived?: boolean;
+    folder?: string;
+    tags?: string[];
+    deletedAt?: number; // Set while the conversation sits in the trash.
+    activeLeafId?: string; // Last message of the branch being shown.
+    historySummaries?: HistorySummary[]; // Newest first, one per branch point.
+    unpinnedFiles?: string[]; // Context file keys the user took out of later turns.
+    uploadedFiles?: Record<string, UploadedFileRef>; // Provider handles of large context files, by context file key.
+    settings?: ConversationSettings; // Generation settings last used here; restored when the conversation is opened.
+    instructions?: string; // Free-form ground rules added to every agent's system instruction.
 }
 
 interface AttachedFile {
@@ -59,9 +101,654 @@ interface SearchConfirmationData {
     searchQuery: string;
     questions: string[];
     attachedFileParts: Part[];
-    history: Content[];
+    previousMessages: Message[];
+}
+
+// --- LLM Providers ---
+type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+type LLMTool = { googleSearch: {} } | { codeExecution: {} };
+
+interface LLMRequest {
+    model: string;
+    contents: Content[] | string;
+    config?: {
+        systemInstruction?: string;
+        temperature?: number;
+        tools?: LLMTool[];
+        responseMimeType?: string;
+        responseSchema?: Schema;
+        abortSignal?: AbortSignal;
+    };
+}
+
+interface TokenUsage {
+    promptTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+}
+
+interface LLMResponse {
+    text: string;
+    parts: Part[];
+    groundingMetadata?: GroundingMetadata;
+    usage?: TokenUsage; // On streams, only the chunk that carries the final totals sets it.
+    finishReason?: string; // On streams, set by the last chunk.
+}
+
+interface EmbeddingResponse {
+    vectors: number[][];
+    usage?: TokenUsage;
+}
+
+interface LLMProvider {
+    kind: ProviderKind;
+    generate: (request: LLMRequest) => Promise<LLMResponse>;
+    // Yields incremental chunks; `text` holds only the delta of each chunk.
+    stream: (request: LLMRequest) => AsyncGenerator<LLMResponse>;
+    embeddingModel: string;
+    embed: (texts: string[], signal?: AbortSignal) => Promise<EmbeddingResponse>;
+    countTokens: (model: string, contents: Content[], signal?: AbortSignal) => Promise<number>;
+    uploadFile?: (file: File, signal?: AbortSignal) => Promise<UploadedFileRef>; // Only providers with a file store.
+}
+
+interface MockScriptEntry {
+    match: string; // Case-insensitive substring of the system instruction or the last user message.
+    response: string;
+}
+
+interface ProviderSettings {
+    kind: ProviderKind;
+    openAIBaseUrl: string;
+    openAIApiKey: string;
+    openAIModels: Record<ModelName, string>;
+    openAIEmbeddingModel: string;
+    mockScript: MockScriptEntry[];
+}
+
+const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    kind: 'gemini',
+    openAIBaseUrl: 'http://localhost:11434/v1',
+    openAIApiKey: '',
+    openAIModels: { 'gemini-2.5-pro': 'llama3.1:70b', 'gemini-2.5-flash': 'llama3.1:8b' },
+    openAIEmbeddingModel: 'nomic-embed-text',
+    mockScript: [],
+};
+
+const getLastUserText = (contents: Content[] | string): string => {
+    if (typeof contents === 'string') return contents;
+    const lastUser = [...contents].reverse().find(c => c.role === 'user');
+    return lastUser?.parts?.map(p => p.text ?? '').join('') ?? '';
+};
+
+// Models often wrap JSON output in a markdown fence even when asked not to.
+const parseJsonResponse = <T,>(text: string): T => {
+    const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    return JSON.parse(fenced ? fenced[1] : text);
+};
+
+const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+const GEMINI_FILE_LIFETIME_MS = 48 * 60 * 60 * 1000; // Uploaded files are deleted after two days.
+
+const createGeminiProvider = (apiKey: string | undefined): LLMProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    const toLLMResponse = (response: GenerateContentResponse): LLMResponse => ({
+        text: response.text ?? '',
+        parts: response.candidates?.[0]?.content?.parts ?? [],
+        groundingMetadata: response.candidates?.[0]?.groundingMetadata,
+        ...(response.candidates?.[0]?.finishReason && { finishReason: response.candidates[0].finishReason }),
+        ...(response.usageMetadata && {
+            usage: {
+                promptTokens: response.usageMetadata.promptTokenCount ?? 0,
+                outputTokens: response.usageMetadata.candidatesTokenCount ?? 0,
+                thinkingTokens: response.usageMetadata.thoughtsTokenCount ?? 0,
+            },
+        }),
+    });
+
+    return {
+        kind: 'gemini',
+        generate: async (request) => toLLMResponse(await ai.models.generateContent(request)),
+        stream: async function* (request) {
+            const stream = await ai.models.generateContentStream(request);
+            for await (const chunk of stream) {
+                yield toLLMResponse(chunk);
+            }
+        },
+        embeddingModel: GEMINI_EMBEDDING_MODEL,
+        embed: async (texts, signal) => {
+            const response = await ai.models.embedContent({ model: GEMINI_EMBEDDING_MODEL, contents: texts, config: { abortSignal: signal } });
+            // embedContent reports no token counts, so the usage is an estimate.
+            return {
+                vectors: (response.embeddings ?? []).map(embedding => embedding.values ?? []),
+                usage: { promptTokens: estimateTokens(texts.join('')), outputTokens: 0, thinkingTokens: 0 },
+            };
+        },
+        countTokens: async (model, contents, signal) =>
+            (await ai.models.countTokens({ model, contents, config: { abortSignal: signal } })).totalTokens ?? 0,
+        uploadFile: async (file, signal) => {
+            let uploaded = await ai.files.upload({ file, config: { mimeType: file.type, displayName: file.name, abortSignal: signal } });
+            // PDFs and videos are processed before they can be referenced.
+            while (uploaded.state === FileState.PROCESSING) {
+                await waitFor(1000, signal);
+                uploaded = await ai.files.get({ name: uploaded.name!, config: { abortSignal: signal } });
+            }
+            if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+                throw new Error(`Upload of ${file.name} failed.`);
+            }
+            return {
+                uri: uploaded.uri,
+                mimeType: uploaded.mimeType ?? file.type,
+                expiresAt: uploaded.expirationTime ? Date.parse(uploaded.expirationTime) : Date.now() + GEMINI_FILE_LIFETIME_MS,
+            };
+        },
+    };
+};
+
+// Gemini schemas use upper-case type names; OpenAI-compatible servers expect plain JSON Schema.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    if (schema.type) result.type = schema.type.toLowerCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+        result.required = schema.required ?? [];
+        result.additionalProperties = false;
+    }
+    return result;
+};
+
+const toOpenAIContent = (parts: Part[]) => parts.flatMap((part): Record<string, unknown>[] => {
+    if (part.text) return [{ type: 'text', text: part.text }];
+    if (part.inlineData?.mimeType?.startsWith('image/')) {
+        return [{ type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }];
+    }
+    if (part.inlineData?.mimeType?.startsWith('text/') && part.inlineData.data) {
+        const decoded = new TextDecoder().decode(Uint8Array.from(atob(part.inlineData.data), c => c.charCodeAt(0)));
+        return [{ type: 'text', text: decoded }];
+    }
+    if (part.inlineData) {
+        return [{ type: 'text', text: `[Anexo ${part.inlineData.mimeType} não suportado por este provedor]` }];
+    }
+    return [];
+});
+
+const createOpenAICompatibleProvider = (settings: ProviderSettings): LLMProvider => {
+    // Some compatible servers reject stream_options; once one does, its streams go without usage.
+    let streamUsageSupported = true;
+
+    const buildBody = (request: LLMRequest, stream: boolean) => {
+        const { config = {} } = request;
+        const messages: Record<string, unknown>[] = [];
+        if (config.systemInstruction) {
+            messages.push({ role: 'system', content: config.systemInstruction });
+        }
+        if (typeof request.contents === 'string') {
+            messages.push({ role: 'user', content: request.contents });
+        } else {
+            for (const content of request.contents) {
+                messages.push({ role: content.role === 'model' ? 'assistant' : 'user', content: toOpenAIContent(content.parts ?? []) });
+            }
+        }
+
+        // Search grounding and code execution are Gemini-only tools, so config.tools is not forwarded.
+
+        let responseFormat: Record<string, unknown> | undefined;
+        if (config.responseSchema) {
+            responseFormat = { type: 'json_schema', json_schema: { name: 'response', strict: true, schema: toJsonSchema(config.responseSchema) } };
+        } else if (config.responseMimeType === 'application/json') {
+            responseFormat = { type: 'json_object' };
+        }
+
+        return JSON.stringify({
+            model: settings.openAIModels[request.model as ModelName] ?? request.model,
+            messages,
+            stream,
+            ...(stream && streamUsageSupported && { stream_options: { include_usage: true } }),
+            ...(config.temperature !== undefined && { temperature: config.temperature }),
+            ...(responseFormat && { response_format: responseFormat }),
+        });
+    };
+
+    const post = async (path: string, body: string, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${settings.openAIBaseUrl.replace(/\/$/, '')}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(settings.openAIApiKey && { Authorization: `Bearer ${settings.openAIApiKey}` }),
+            },
+            body,
+            signal,
+        });
+        if (!response.ok) {
+            throw Object.assign(new Error(`OpenAI-compatible request failed (${response.status}): ${await response.text()}`), { status: response.status });
+        }
+        return response;
+    };
+
+    const toUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number; completion_tokens_details?: { reasoning_tokens?: number } }): TokenUsage | undefined => {
+        if (!usage) return undefined;
+        const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+        return { promptTokens: usage.prompt_tokens ?? 0, outputTokens: (usage.completion_tokens ?? 0) - thinkingTokens, thinkingTokens };
+    };
+
+    return {
+        kind: 'openai',
+        generate: async (request) => {
+            const data = await (await post('/chat/completions', buildBody(request, false), request.config?.abortSignal)).json();
+            const message = data.choices?.[0]?.message ?? {};
+            const text: string = message.content ?? '';
+            return { text, parts: text ? [{ text }] : [], usage: toUsage(data.usage), finishReason: data.choices?.[0]?.finish_reason ?? undefined };
+        },
+        stream: async function* (request) {
+            const response = await post('/chat/completions', buildBody(request, true), request.config?.abortSignal).catch(error => {
+                if (error?.status !== 400 || !streamUsageSupported) throw error;
+                streamUsageSupported = false;
+                return post('/chat/completions', buildBody(request, true), request.config?.abortSignal);
+            });
+            const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const payload = line.replace(/^data:\s*/, '').trim();
+                    if (!payload || payload === '[DONE]' || !line.startsWith('data:')) continue;
+                    const data = JSON.parse(payload);
+                    const text: string = data.choices?.[0]?.delta?.content ?? '';
+                    const usage = toUsage(data.usage);
+                    const finishReason: string | undefined = data.choices?.[0]?.finish_reason ?? undefined;
+                    if (text || usage || finishReason) yield { text, parts: text ? [{ text }] : [], ...(usage && { usage }), ...(finishReason && { finishReason }) };
+                }
+            }
+        },
+        embeddingModel: settings.openAIEmbeddingModel,
+        embed: async (texts, signal) => {
+            const body = JSON.stringify({ model: settings.openAIEmbeddingModel, input: texts });
+            const data: { data: { index: number; embedding: number[] }[]; usage?: { prompt_tokens?: number } } = await (await post('/embeddings', body, signal)).json();
+            return { vectors: [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding), usage: toUsage(data.usage) };
+        },
+        // OpenAI-compatible servers have no standard counting endpoint, so this is an estimate.
+        countTokens: async (_model, contents) => estimateContentTokens(contents),
+    };
+};
+
+const DEFAULT_MOCK_SCRIPT: MockScriptEntry[] = [
+    { match: "determines if a query needs a web search", response: 'NO' },
+    { match: "You are the Critic Agent", response: 'PERFECT' },
+];
+
+const waitFor = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+// Produces a value that satisfies a response schema so JSON-mode callers work offline.
+const mockValueForSchema = (schema: Schema, prompt: string): unknown => {
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, mockValueForSchema(value, prompt)]));
+        case Type.ARRAY:
+            return [1, 2].map(() => mockValueForSchema(schema.items ?? { type: Type.STRING }, prompt));
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return 1;
+        case Type.BOOLEAN:
+            return true;
+        default:
+            return schema.enum?.[0] ?? prompt.slice(0, 120);
+    }
+};
+
+// The mock reports usage at roughly four characters per token so the cost views have data offline.
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateContentTokens = (contents: Content[]): number =>
+    estimateTokens(contents.flatMap(content => content.parts ?? []).map(part => part.text ?? '').join(''));
+
+const createMockProvider = (script: MockScriptEntry[]): LLMProvider => {
+    const respond = (request: LLMRequest): LLMResponse => {
+        const prompt = getLastUserText(request.contents);
+        const systemInstruction = request.config?.systemInstruction ?? '';
+        const usageFor = (text: string): TokenUsage => ({ promptTokens: estimateTokens(systemInstruction + prompt), outputTokens: estimateTokens(text), thinkingTokens: 0 });
+        if (request.config?.responseSchema) {
+            const text = JSON.stringify(mockValueForSchema(request.config.responseSchema, prompt));
+            return { text, parts: [{ text }], usage: usageFor(text), finishReason: 'STOP' };
+        }
+        const entry = [...script, ...DEFAULT_MOCK_SCRIPT].find(e =>
+            `${systemInstruction}\n${prompt}`.toLowerCase().includes(e.match.toLowerCase())
+        );
+        const text = entry?.response ?? `**Resposta simulada** (${request.model})\n\n${systemInstruction ? `> ${systemInstruction.slice(0, 80)}...\n\n` : ''}Pergunta recebida: "${prompt.slice(0, 200)}"`;
+        const usesSearch = request.config?.tools?.some(tool => 'googleSearch' in tool);
+        return {
+            text,
+            parts: [{ text }],
+            usage: usageFor(text),
+            finishReason: 'STOP',
+            ...(usesSearch && {
+                groundingMetadata: {
+                    groundingChunks: [1, 2].map(i => ({ web: { uri: `https://example.com/mock-source-${i}`, title: `Fonte simulada ${i}` } })),
+                },
+            }),
+        };
+    };
+
+    return {
+        kind: 'mock',
+        generate: async (request) => {
+            await waitFor(300, request.config?.abortSignal);
+            return respond(request);
+        },
+        stream: async function* (request) {
+            const { text, ...rest } = respond(request);
+            const words = text.split(/(?<=\s)/);
+            for (let i = 0; i < words.length; i++) {
+                await waitFor(20, request.config?.abortSignal);
+                yield i === words.length - 1 ? { ...rest, text: words[i], parts: [{ text: words[i] }] } : { text: words[i], parts: [{ text: words[i] }] };
+            }
+        },
+        embeddingModel: LOCAL_EMBEDDING_MODEL,
+        embed: async (texts, signal) => {
+            await waitFor(50, signal);
+            return { vectors: texts.map(embedLocally), usage: { promptTokens: estimateTokens(texts.join('')), outputTokens: 0, thinkingTokens: 0 } };
+        },
+        countTokens: async (_model, contents) => estimateContentTokens(contents),
+    };
+};
+
+const createProvider = (settings: ProviderSettings): LLMProvider => {
+    switch (settings.kind) {
+        case 'openai': return createOpenAICompatibleProvider(settings);
+        case 'mock': return createMockProvider(settings.mockScript);
+        default: return createGeminiProvider(process.env.API_KEY);
+    }
+};
+
+interface RetrySettings {
+    maxRetries: number; // Extra attempts after the first failure.
+    minSuccessfulAgents: number; // Fan-out stages continue as long as this many agents answered.
+}
+
+const DEFAULT_RETRY_SETTINGS: RetrySettings = { maxRetries: 2, minSuccessfulAgents: 1 };
+
+// Status codes only count as a "status 429" or "(429)" token, so numbers elsewhere in a message do not match.
+const RETRYABLE_ERROR_PATTERN = /(?:\bstatus:?\s*|\()(?:429|50[0-4])\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|fetch failed|Failed to fetch|NetworkError/i;
+
+// Rate limits, server errors and dropped connections are worth another try; bad requests and safety blocks are not.
+const isRetryableError = (error: unknown): boolean => {
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') return status === 429 || status >= 500;
+    return error instanceof Error && RETRYABLE_ERROR_PATTERN.test(error.message);
+};
+
+const MAX_RETRY_DELAY_MS = 8000;
+
+// Exponential backoff with full jitter, so parallel agents hitting the same rate limit do not retry in lockstep.
+const withRetry = async <T,>(call: () => Promise<T>, retries: number, signal?: AbortSignal, baseDelayMs = 1000): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            if (signal?.aborted || attempt >= retries || !isRetryableError(error)) throw error;
+            await waitFor(Math.random() * Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt), signal);
+        }
+    }
+};
+
+// Thrown when a fan-out stage ends with fewer answers than the configured minimum.
+class AgentQuorumError extends Error {
+    constructor(stageLabel: string, answered: number, total: number, required: number) {
+        super(`Stage "${stageLabel}": only ${answered} of ${total} agents answered, ${required} required.`);
+        this.name = 'AgentQuorumError';
+    }
+}
+
+const describeError = (error: unknown): string => {
+    const message = error instanceof Error ? error.message : String(error);
+    return message.length > 300 ? `${message.slice(0, 300)}...` : message;
+};
+
+// --- Persistence (IndexedDB) ---
+const DB_NAME = 'gemini-heavy';
+const DB_VERSION = 2;
+const LEGACY_CONVERSATIONS_KEY = 'gemini-heavy-conversations';
+const LEGACY_MEMORIES_KEY = 'gemini-heavy-ltm';
+const STORAGE_WARNING_RATIO = 0.8;
+
+// Attachments live in their own store; messages keep a reference to them instead of the base64 payload.
+interface AttachmentRef {
+    attachmentKey: string;
+}
+
+interface StoredMessage extends Omit<Message, 'parts' | 'attachedFiles'> {
+    parts: (Part | AttachmentRef)[];
+    attachedFileKeys?: string[];
+}
+
+interface StoredMessageRecord {
+    key: string;
+    conversationId: string;
+    index: number;
+    message: StoredMessage;
+}
+
+interface StoredAttachment {
+    key: string;
+    conversationId: string;
+    inlineData?: { data: string; mimeType: string };
+    file?: File;
+}
+
+interface StoredConversation extends Omit<Conversation, 'messages'> {
+    position: number;
 }
 
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    databasePromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains('conversations')) {
+                db.createObjectStore('conversations', { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains('messages')) {
+                db.createObjectStore('messages', { keyPath: 'key' }).createIndex('conversationId', 'conversationId');
+            }
+            if (!db.objectStoreNames.contains('attachments')) {
+                db.createObjectStore('attachments', { keyPath: 'key' }).createIndex('conversationId', 'conversationId');
+            }
+            if (!db.objectStoreNames.contains('memories')) {
+                db.createObjectStore('memories', { keyPath: 'position' });
+            }
+            if (!db.objectStoreNames.contains('memoryInbox')) {
+                db.createObjectStore('memoryInbox', { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains('memoryRejections')) {
+                db.createObjectStore('memoryRejections', { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return databasePromise;
+};
+
+const keyPrefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+const writeMessage = (transaction: IDBTransaction, conversationId: string, index: number, message: Message) => {
+    const key = `${conversationId}:${index}`;
+    const attachments = transaction.objectStore('attachments');
+    attachments.delete(keyPrefixRange(`${key}:`));
+
+    const { attachedFiles, parts, ...rest } = message;
+    const storedParts = parts.map((part, partIndex) => {
+        if (!part.inlineData?.data) return part;
+        const attachmentKey = `${key}:part:${partIndex}`;
+        attachments.put({ key: attachmentKey, conversationId, inlineData: { data: part.inlineData.data, mimeType: part.inlineData.mimeType ?? '' } } as StoredAttachment);
+        return { attachmentKey };
+    });
+    const attachedFileKeys = attachedFiles?.filter(file => file instanceof File).map((file, fileIndex) => {
+        const attachmentKey = `${key}:file:${fileIndex}`;
+        attachments.put({ key: attachmentKey, conversationId, file } as StoredAttachment);
+        return attachmentKey;
+    });
+
+    const record: StoredMessageRecord = {
+        key,
+        conversationId,
+        index,
+        message: { ...rest, parts: storedParts, ...(attachedFileKeys && attachedFileKeys.length > 0 && { attachedFileKeys }) },
+    };
+    transaction.objectStore('messages').put(record);
+};
+
+const deleteMessage = (transaction: IDBTransaction, conversationId: string, index: number) => {
+    const key = `${conversationId}:${index}`;
+    transaction.objectStore('messages').delete(key);
+    transaction.objectStore('attachments').delete(keyPrefixRange(`${key}:`));
+};
+
+// Writes only what changed between two snapshots. State updates are immutable, so an unchanged
+// conversation or message keeps its object identity.
+const saveConversationChanges = async (previous: Conversation[], next: Conversation[]) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(['conversations', 'messages', 'attachments'], 'readwrite');
+    const previousById = new Map(previous.map((conversation, position) => [conversation.id, { conversation, position }]));
+
+    next.forEach((conversation, position) => {
+        const before = previousById.get(conversation.id);
+        previousById.delete(conversation.id);
+        if (before?.conversation === conversation && before.position === position) return;
+
+        const { messages, ...meta } = conversation;
+        transaction.objectStore('conversations').put({ ...meta, position } as StoredConversation);
+        messages.forEach((message, index) => {
+            if (before?.conversation.messages[index] !== message) {
+                writeMessage(transaction, conversation.id, index, message);
+            }
+        });
+        for (let index = messages.length; index < (before?.conversation.messages.length ?? 0); index++) {
+            deleteMessage(transaction, conversation.id, index);
+        }
+    });
+
+    previousById.forEach(({ conversation }) => {
+        transaction.objectStore('conversations').delete(conversation.id);
+        transaction.objectStore('messages').delete(keyPrefixRange(`${conversation.id}:`));
+        transaction.objectStore('attachments').delete(keyPrefixRange(`${conversation.id}:`));
+    });
+
+    await transactionDone(transaction);
+};
+
+// Earlier versions stored only the text of each memory.
+type StoredMemory = { position: number; text: string } & Partial<MemoryRecord>;
+
+const saveMemories = async (memories: MemoryRecord[]) => {
+    const db = await openDatabase();
+    const transaction = db.transaction('memories', 'readwrite');
+    const store = transaction.objectStore('memories');
+    store.clear();
+    memories.forEach((memory, position) => store.put({ position, ...memory }));
+    await transactionDone(transaction);
+};
+
+const saveMemoryReview = async (inbox: MemoryProposal[], rejections: MemoryRejection[]) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(['memoryInbox', 'memoryRejections'], 'readwrite');
+    const inboxStore = transaction.objectStore('memoryInbox');
+    const rejectionStore = transaction.objectStore('memoryRejections');
+    inboxStore.clear();
+    rejectionStore.clear();
+    inbox.forEach(proposal => inboxStore.put(proposal));
+    rejections.forEach(rejection => rejectionStore.put(rejection));
+    await transactionDone(transaction);
+};
+
+// Moves data saved by earlier versions out of localStorage. File objects never survived the
+// JSON serialization there, so only the generative parts of attachments can be carried over.
+const migrateLegacyLocalStorage = async () => {
+    const legacyConversations = localStorage.getItem(LEGACY_CONVERSATIONS_KEY);
+    const legacyMemories = localStorage.getItem(LEGACY_MEMORIES_KEY);
+    if (legacyConversations) {
+        const parsed: Conversation[] = JSON.parse(legacyConversations);
+        await saveConversationChanges([], parsed.map(c => ({ ...c, messages: c.messages.map(({ attachedFiles, ...m }) => m) })));
+        localStorage.removeItem(LEGACY_CONVERSATIONS_KEY);
+    }
+    if (legacyMemories) {
+        await saveMemories((JSON.parse(legacyMemories) as string[]).map(text => createMemoryRecord(text)));
+        localStorage.removeItem(LEGACY_MEMORIES_KEY);
+    }
+};
+
+const loadStoredData = async (): Promise<{ conversations: Conversation[]; memories: MemoryRecord[]; memoryInbox: MemoryProposal[]; memoryRejections: MemoryRejection[] }> => {
+    await migrateLegacyLocalStorage();
+    const db = await openDatabase();
+    const transaction = db.transaction(['conversations', 'messages', 'attachments', 'memories', 'memoryInbox', 'memoryRejections'], 'readonly');
+    const [metas, messageRecords, attachments, memories, memoryInbox, memoryRejections] = await Promise.all([
+        requestToPromise<StoredConversation[]>(transaction.objectStore('conversations').getAll()),
+        requestToPromise<StoredMessageRecord[]>(transaction.objectStore('messages').getAll()),
+        requestToPromise<StoredAttachment[]>(transaction.objectStore('attachments').getAll()),
+        requestToPromise<StoredMemory[]>(transaction.objectStore('memories').getAll()),
+        requestToPromise<MemoryProposal[]>(transaction.objectStore('memoryInbox').getAll()),
+        requestToPromise<MemoryRejection[]>(transaction.objectStore('memoryRejections').getAll()),
+    ]);
+
+    const attachmentsByKey = new Map(attachments.map(a => [a.key, a]));
+    const restoreMessage = ({ attachedFileKeys, parts, ...rest }: StoredMessage): Message => ({
+        ...rest,
+        parts: parts.map(part => 'attachmentKey' in part ? { inlineData: attachmentsByKey.get(part.attachmentKey)?.inlineData } : part),
+        ...(attachedFileKeys && {
+            attachedFiles: attachedFileKeys.map(key => attachmentsByKey.get(key)?.file).filter((file): file is File => !!file),
+        }),
+    });
+
+    const messagesByConversation = new Map<string, StoredMessageRecord[]>();
+    for (const record of messageRecords) {
+        messagesByConversation.set(record.conversationId, [...(messagesByConversation.get(record.conversationId) ?? []), record]);
+    }
+
+    return {
+        conversations: metas
+            .sort((a, b) => a.position - b.position)
+            .map(({ position, ...meta }) => ({
+                ...meta,
+                messages: (messagesByConversation.get(meta.id) ?? []).sort((a, b) => a.index - b.index).map(r => restoreMessage(r.message)),
+            })),
+        memories: memories.sort((a, b) => a.position - b.position).map(({ position, ...memory }) => memory.id ? memory as MemoryRecord : createMemoryRecord(memory.text)),
+        memoryInbox: memoryInbox.sort((a, b) => b.createdAt - a.createdAt),
+        memoryRejections: memoryRejections.sort((a, b) => b.rejectedAt - a.rejectedAt),
+    };
+};
+
+const getStorageUsageRatio = async (): Promise<number | null> => {
+    const estimate = await navigator.storage?.estimate?.();
+    if (!estimate?.quota || estimate.usage === undefined) return null;
+    return estimate.usage / estimate.quota;
+};
+
 const useAutoResizeTextarea = (textareaRef: React.RefObject<HTMLTextAreaElement>, value: string) => {
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -154,6 +841,43 @@ const MessageCopyButton: FC<{ text: string }> = ({ text }) => {
     );
 };
 
+const BranchSwitcher: FC<{ index: number; count: number; disabled?: boolean; onSwitch: (offset: number) => void }> = ({ index, count, disabled, onSwitch }) => {
+    if (count < 2) return null;
+    return (
+        <div className="branch-switcher">
+            <button className="message-action-button" onClick={() => onSwitch(-1)} disabled={disabled || index === 0} aria-label="Versão anterior">
+                <IconChevronLeft />
+            </button>
+            <span>{index + 1}/{count}</span>
+            <button className="message-action-button" onClick={() => onSwitch(1)} disabled={disabled || index === count - 1} aria-label="Próxima versão">
+                <IconChevronRight />
+            </button>
+        </div>
+    );
+};
+
+const CitationMarker: FC<{ number: number; source: WebSource }> = ({ number, source }) => (
+    <span className="citation-marker">
+        <a href={source.uri} target="_blank" rel="noopener noreferrer" aria-label={`Fonte ${number}: ${source.title}`}>{number}</a>
+        <span className="citation-preview" role="tooltip">
+            <span className="citation-preview-title">{source.title}</span>
+            <span className="citation-preview-host">{getHostname(source.uri)}</span>
+        </span>
+    </span>
+);
+
+const MarkdownLink: FC<React.AnchorHTMLAttributes<HTMLAnchorElement> & { sources?: WebSource[] }> = ({ href, children, sources, ...props }) => {
+    if (href === UNSOURCED_HREF) {
+        return <span className="citation-unsourced" title="Nenhuma fonte sustenta esta frase">?</span>;
+    }
+    if (href?.startsWith(CITATION_HREF_PREFIX)) {
+        const number = parseInt(href.slice(CITATION_HREF_PREFIX.length), 10);
+        const source = sources?.[number - 1];
+        if (source) return <CitationMarker number={number} source={source} />;
+    }
+    return <a href={href} {...props}>{children}</a>;
+};
+
 const SourcesDisplay: FC<{ sources: { uri: string; title: string }[] }> = ({ sources }) => {
     if (!sources || sources.length === 0) return null;
     return (
@@ -165,6 +889,7 @@ const SourcesDisplay: FC<{ sources: { uri: string; title: string }[] }> = ({ sou
                          <div className="source-favicon">
                             <img src={`https://www.google.com/s2/favicons?domain=${new URL(source.uri).hostname}&sz=32`} alt="favicon"/>
                         </div>
+                        <span className="source-number">{index + 1}</span>
                         <span className="source-title">{source.title}</span>
                     </a>
                 ))}
@@ -196,6 +921,17 @@ const IconShieldCheck = () => <svg xmlns="http://www.w3.org/2000/svg" width="16"
 const IconWand = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M15 4V2"/><path d="M15 10V8"/><path d="M11.5 7.5h-3"/><path d="M20 15V8a2 2 0 0 0-2-2h-5"/><path d="M9 11.5v3"/><path d="M5.5 15h3"/><path d="M4 22l4-4"/><path d="m15 15 4 4"/><path d="M9 22l4-4"/><path d="M5 15l-1.5 1.5A2.82 2.82 0 0 0 5 22"/></svg>;
 const IconLayers = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="12 2 2 7 12 12 22 7 12 2"/><polyline points="2 17 12 22 22 17"/><polyline points="2 12 12 17 22 12"/></svg>;
 const IconTerminalSquare = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m7 11 2-2-2-2"/><path d="M11 13h4"/><rect width="18" height="18" x="3" y="3" rx="2"/></svg>;
+const IconListTodo = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="5" width="6" height="6" rx="1"/><path d="m3 17 2 2 4-4"/><path d="M13 6h8"/><path d="M13 12h8"/><path d="M13 18h8"/></svg>;
+const IconSearchCheck = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m8 11 2 2 4-4"/><circle cx="11" cy="11" r="8"/><path d="m21 21-4.3-4.3"/></svg>;
+const IconQuote = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M16 3a2 2 0 0 0-2 2v6a2 2 0 0 0 2 2 1 1 0 0 1 1 1v1a2 2 0 0 1-2 2 1 1 0 0 0-1 1v2a1 1 0 0 0 1 1 6 6 0 0 0 6-6V5a2 2 0 0 0-2-2z"/><path d="M5 3a2 2 0 0 0-2 2v6a2 2 0 0 0 2 2 1 1 0 0 1 1 1v1a2 2 0 0 1-2 2 1 1 0 0 0-1 1v2a1 1 0 0 0 1 1 6 6 0 0 0 6-6V5a2 2 0 0 0-2-2z"/></svg>;
+const IconStop = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect width="14" height="14" x="5" y="5" rx="2"/></svg>;
+const IconDownload = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" x2="12" y1="15" y2="3"/></svg>;
+const IconFilter = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="22 3 2 3 10 12.46 10 19 14 21 14 12.46 22 3"/></svg>;
+const IconPin = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 17v5"/><path d="M9 10.76a2 2 0 0 1-1.11 1.79l-1.78.9A2 2 0 0 0 5 15.24V16a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1v-.76a2 2 0 0 0-1.11-1.79l-1.78-.9A2 2 0 0 1 15 10.76V7a1 1 0 0 1 1-1 2 2 0 0 0 0-4H8a2 2 0 0 0 0 4 1 1 0 0 1 1 1z"/></svg>;
+const IconMoreHorizontal = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="1"/><circle cx="19" cy="12" r="1"/><circle cx="5" cy="12" r="1"/></svg>;
+const IconRefresh = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 0 1 9-9 9.75 9.75 0 0 1 6.74 2.74L21 8"/><path d="M21 3v5h-5"/><path d="M21 12a9 9 0 0 1-9 9 9.75 9.75 0 0 1-6.74-2.74L3 16"/><path d="M8 16H3v5"/></svg>;
+const IconChevronLeft = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m15 18-6-6 6-6"/></svg>;
+const IconChevronRight = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m9 18 6-6-6-6"/></svg>;
 const IconEdit = () => <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"/><path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"/></svg>;
 
 
@@ -210,6 +946,9 @@ const getFileTypeIcon = (mimeType: string): ReactNode => {
 type TaskStatus = 'pending' | 'active' | 'completed';
 type ResearchMode = 'offline' | 'web' | 'deep';
 type ModelName = 'gemini-2.5-pro' | 'gemini-2.5-flash';
+
+const MODEL_LABELS: Record<ModelName, string> = { 'gemini-2.5-pro': 'Pro', 'gemini-2.5-flash': 'Flash' };
+const MODEL_NAMES = Object.keys(MODEL_LABELS) as ModelName[];
 type GenerationDepth = 'fast' | 'balanced' | 'deep';
 
 interface LoadingTask {
@@ -219,240 +958,3148 @@ interface LoadingTask {
 }
 
 const HISTORY_PROCESSING_TASK: LoadingTask = { name: "Processando histórico...", icon: <IconHistory />, status: 'pending' };
-const BRAINSTORMING_TASK: LoadingTask = { name: "Brainstorming...", icon: <IconBot />, status: 'pending' };
-const REFINING_TASK: LoadingTask = { name: "Refinando rascunhos...", icon: <IconSparkles />, status: 'pending' };
-const SYNTHESIZING_TASK: LoadingTask = { name: "Sintetizando resposta...", icon: <IconBlend />, status: 'pending' };
-const CRITIC_TASK: LoadingTask = { name: "Revisão crítica...", icon: <IconShieldCheck />, status: 'pending' };
 const SEARCHING_TASK: LoadingTask = { name: "Pesquisando na web...", icon: <IconSearch />, status: 'pending' };
+const PLANNING_RESEARCH_TASK: LoadingTask = { name: "Planejando a pesquisa...", icon: <IconListTodo />, status: 'pending' };
+const ANALYZING_GAPS_TASK: LoadingTask = { name: "Analisando lacunas...", icon: <IconSearchCheck />, status: 'pending' };
+const ATTRIBUTING_SOURCES_TASK: LoadingTask = { name: "Atribuindo fontes...", icon: <IconQuote />, status: 'pending' };
 
+// --- Agent Pipelines ---
+type StageRole = 'brainstorm' | 'refine' | 'synthesize' | 'critic';
 
-const OFFLINE_TASKS: LoadingTask[] = [
-    HISTORY_PROCESSING_TASK,
-    BRAINSTORMING_TASK,
-    REFINING_TASK,
-    SYNTHESIZING_TASK,
-    CRITIC_TASK,
-];
-const WEB_RESEARCH_TASKS: LoadingTask[] = [
-    HISTORY_PROCESSING_TASK,
-    SEARCHING_TASK,
-    BRAINSTORMING_TASK,
-    REFINING_TASK,
-    SYNTHESIZING_TASK,
-    CRITIC_TASK,
-];
-const DEEP_RESEARCH_TASKS: LoadingTask[] = [
-    HISTORY_PROCESSING_TASK,
-    SEARCHING_TASK,
-    BRAINSTORMING_TASK,
-    REFINING_TASK,
-    SYNTHESIZING_TASK,
-    CRITIC_TASK,
-];
+interface PipelineStage {
+    id: string;
+    role: StageRole;
+    label: string;
+    prompt: string;
+    model: ModelName;
+    temperature: number;
+    agentTemperatures?: number[]; // Per-agent overrides for brainstorm stages.
+    personaId?: string; // Library persona whose instruction replaces the prompt.
+    agentPersonaIds?: string[]; // Per-agent persona overrides for brainstorm stages.
+    agentModels?: (ModelName | '')[]; // Per-agent model overrides for brainstorm stages; empty follows the stage model.
+    count: number; // Parallel agents; only brainstorm stages fan out by count, refiners run once per input draft.
+    inputs: string[]; // Ids of earlier stages whose outputs this stage consumes.
+}
 
-const formatTimer = (milliseconds: number): string => {
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const minutes = String(Math.floor(totalSeconds / 60)).padStart(2, '0');
-    const seconds = String(totalSeconds % 60).padStart(2, '0');
-    return `${minutes}:${seconds}`;
+interface PipelineDefinition {
+    id: string;
+    name: string;
+    stages: PipelineStage[];
+}
+
+interface StageRun {
+    stageId: string;
+    role: StageRole;
+    label: string;
+    outputs: string[];
+    agentPersonas?: string[]; // Persona name used by each output, when one was set.
+    agentModels?: ModelName[]; // Model that produced each output.
+    agentNumbers?: number[]; // Original agent number of each output, set when some agents failed.
+    excluded?: number[]; // Outputs left out of the later stages by a re-run.
+    failures?: AgentFailure[];
+}
+
+// Re-runs a stored answer from stageId on: earlier stages keep their recorded outputs.
+interface StageRerun {
+    stageId: string;
+    agentIndex?: number; // Re-runs only this output of a brainstorm or refine stage.
+    excluded: Record<string, number[]>; // Outputs per stage left out of the later stages.
+    temperature?: number;
+    personaId?: string;
+}
+
+interface AgentFailure {
+    agent: number;
+    error: string;
+    attempts: number;
+}
+
+// An empty entry follows the global model chosen in the settings.
+interface ModelAssignments {
+    initial: (ModelName | '')[];
+    refine: ModelName | '';
+    synthesize: ModelName | '';
+    critic: ModelName | '';
+}
+
+const DEFAULT_MODEL_ASSIGNMENTS: ModelAssignments = {
+    initial: ['', '', '', ''],
+    refine: '',
+    synthesize: '',
+    critic: 'gemini-2.5-flash',
 };
 
-const LoadingIndicator: FC<{ tasks: LoadingTask[], timer: number, activeTaskName?: string }> = ({ tasks, timer, activeTaskName }) => {
-    const completedCount = tasks.filter(t => t.status === 'completed').length;
-    const progressPercentage = tasks.length > 0 ? (completedCount / (tasks.length - 1)) * 100 : 0;
+const MAX_STAGE_AGENTS = 8;
 
-    return (
-        <div className="message-wrapper model-wrapper">
-             <div className="avatar model-avatar">
-                <IconBot />
-            </div>
-            <div className="message-content-wrapper">
-                <div className="message model loading-animation">
-                    <div className="loading-header">
-                        <div className="loading-status-container">
-                            <div className="loading-status">Gerando resposta...</div>
-                            {activeTaskName && <div className="loading-sub-status">{activeTaskName}</div>}
-                        </div>
-                        <div className="timer-display">{formatTimer(timer)}</div>
-                    </div>
-                    <div className="loading-task-list-wrapper">
-                        <div className="loading-progress-bar-container">
-                            <div className="loading-progress-bar" style={{ height: `${progressPercentage}%` }}></div>
-                        </div>
-                        <div className="loading-task-list">
-                            {tasks.map((task, index) => (
-                                <div
-                                    key={index}
-                                    className={`loading-task-item ${task.status}`}
-                                    style={{ animationDelay: `${index * 100}ms` }}
-                                >
-                                    <div className="task-status-icon">
-                                        {task.status === 'pending' && <div className="task-icon">{task.icon}</div>}
-                                        {task.status === 'active' && <div className="task-icon processing-icon"><IconLoader /></div>}
-                                        {task.status === 'completed' && <div className="task-icon completed-icon"><IconCheck /></div>}
-                                    </div>
-                                    <span className="task-name">{task.name}</span>
-                                </div>
-                            ))}
-                        </div>
-                    </div>
-                </div>
-            </div>
-        </div>
-    );
+const STAGE_ROLE_DEFAULTS: Record<StageRole, { name: string; label: string; prompt: string; icon: ReactNode }> = {
+    brainstorm: { name: "Brainstorm", label: "Brainstorming", prompt: INITIAL_SYSTEM_INSTRUCTION, icon: <IconBot /> },
+    refine: { name: "Refinamento", label: "Refinando rascunhos", prompt: REFINEMENT_SYSTEM_INSTRUCTION, icon: <IconSparkles /> },
+    synthesize: { name: "Síntese", label: "Sintetizando resposta", prompt: SYNTHESIZER_SYSTEM_INSTRUCTION, icon: <IconBlend /> },
+    critic: { name: "Crítica", label: "Revisão crítica", prompt: CRITIC_SYSTEM_INSTRUCTION, icon: <IconShieldCheck /> },
 };
 
-const RefinePanel: FC<{
-    data: RefineData | null;
-    isRefining: boolean;
-    error: string | null;
-    onApply: (text: string) => void;
-    onClose: () => void;
-}> = ({ data, isRefining, error, onApply, onClose }) => {
-    const [isEditing, setIsEditing] = useState(false);
-    const [editedText, setEditedText] = useState("");
-    const [copyStatus, setCopyStatus] = useState("Copiar");
-    const editRef = useRef<HTMLTextAreaElement>(null);
+const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createStage = (role: StageRole, overrides: Partial<PipelineStage> = {}): PipelineStage => ({
+    id: createId(),
+    role,
+    label: STAGE_ROLE_DEFAULTS[role].label,
+    prompt: STAGE_ROLE_DEFAULTS[role].prompt,
+    model: role === 'critic' ? 'gemini-2.5-flash' : 'gemini-2.5-pro',
+    temperature: role === 'critic' ? 0.1 : 0.9,
+    count: role === 'brainstorm' ? 4 : 1,
+    inputs: [],
+    ...overrides,
+});
+
+// The built-in Balanced and Deep flows, driven by the temperature and model settings.
+const buildDefaultPipeline = (
+    depth: 'balanced' | 'deep',
+    settings: { initialTemps: number[]; refinementTemp: number; synthesizerTemp: number; modelName: ModelName; personas: PersonaAssignments; models: ModelAssignments }
+): PipelineDefinition => {
+    const count = depth === 'deep' ? 4 : 2;
+    const { personas, models } = settings;
+    const pick = (model: ModelName | '' | undefined): ModelName => model || settings.modelName;
+    return {
+        id: `default-${depth}`,
+        name: depth === 'deep' ? "Profundo" : "Balanceado",
+        stages: [
+            createStage('brainstorm', {
+                id: 'brainstorm', model: settings.modelName, count,
+                temperature: settings.initialTemps[0], agentTemperatures: settings.initialTemps.slice(0, count),
+                agentPersonaIds: personas.initial.slice(0, count),
+                agentModels: Array.from({ length: count }, (_, i) => pick(models.initial[i])),
+            }),
+            createStage('refine', { id: 'refine', model: pick(models.refine), temperature: settings.refinementTemp, inputs: ['brainstorm'], personaId: personas.refine }),
+            createStage('synthesize', { id: 'synthesize', model: pick(models.synthesize), temperature: settings.synthesizerTemp, inputs: ['refine'], personaId: personas.synthesize }),
+            createStage('critic', { id: 'critic', model: pick(models.critic), inputs: ['synthesize'], personaId: personas.critic }),
+        ],
+    };
+};
 
-    useEffect(() => {
-        if (data && !isEditing) {
-            setEditedText(data.refined);
+const getFinalSynthesizer = (stages: PipelineStage[]): PipelineStage | undefined =>
+    [...stages].reverse().find(stage => stage.role === 'synthesize');
+
+const validatePipeline = (pipeline: PipelineDefinition): string | null => {
+    if (!pipeline.name.trim()) return "Dê um nome ao pipeline.";
+    if (pipeline.stages.length === 0) return "O pipeline precisa de pelo menos uma etapa.";
+    const seen = new Map<string, PipelineStage>();
+    for (const stage of pipeline.stages) {
+        if (!stage.label.trim()) return "Todas as etapas precisam de um nome.";
+        const unknownInput = stage.inputs.find(id => !seen.has(id));
+        if (unknownInput) return `A etapa "${stage.label}" só pode usar etapas anteriores como entrada.`;
+        if (stage.role === 'brainstorm' && (stage.count < 1 || stage.count > MAX_STAGE_AGENTS)) {
+            return `A etapa "${stage.label}" deve ter entre 1 e ${MAX_STAGE_AGENTS} agentes.`;
         }
-    }, [data, isEditing]);
+        if (stage.role === 'refine' && stage.inputs.length === 0) return `A etapa "${stage.label}" precisa de rascunhos de entrada.`;
+        if (stage.role === 'critic' && (stage.inputs.length !== 1 || seen.get(stage.inputs[0])?.role !== 'synthesize')) {
+            return `A etapa "${stage.label}" deve revisar exatamente uma etapa de síntese.`;
+        }
+        seen.set(stage.id, stage);
+    }
+    const lastProducer = [...pipeline.stages].reverse().find(stage => stage.role !== 'critic');
+    if (lastProducer?.role !== 'synthesize') return "A última etapa (antes da crítica) deve ser uma síntese.";
+    return null;
+};
+
+// Prompt layout per role; the section markers are what the role instructions refer to.
+const buildStageContents = (role: StageRole, history: Content[], promptParts: Part[], drafts: string[]): Content[] => {
+    switch (role) {
+        case 'brainstorm':
+            return [...history, { role: 'user', parts: [...promptParts, ...drafts.map((draft, i) => ({ text: `\n\n--- Previous Draft ${i + 1} ---\n${draft}` }))] }];
+        case 'refine':
+            return [...history, { role: 'user', parts: [...promptParts, { text: "\n\n--- Initial Response to Refine ---\n" + drafts[0] }] }];
+        case 'synthesize':
+            return [...history, { role: 'user', parts: [...promptParts, ...drafts.map((draft, i) => ({ text: `\n\n--- Refined Response ${i + 1} ---\n${draft}` }))] }];
+        case 'critic':
+            return [{ role: 'user', parts: [...promptParts, { text: "\n\n--- Proposed Final Answer to Critique ---\n" + drafts[0] }] }];
+    }
+};
+
+const buildRewriteContents = (synthesisContents: Content[], critique: string): Content[] => {
+    const last = synthesisContents[synthesisContents.length - 1];
+    return [
+        ...synthesisContents.slice(0, -1),
+        {
+            ...last,
+            parts: [
+                ...(last.parts ?? []),
+                { text: "\n\n--- Critique of Previous Attempt ---\n" + critique },
+                { text: "\n\n--- Your Task ---\nGenerate a new, superior final response that addresses the critique." }
+            ]
+        }
+    ];
+};
+
+// A re-run reuses the stored research, so only the attribution step is left of it.
+const buildPipelineTasks = (stages: PipelineStage[], researchMode: ResearchMode, reuseResearch = false): LoadingTask[] => [
+    HISTORY_PROCESSING_TASK,
+    ...(researchMode === 'web' && !reuseResearch ? [SEARCHING_TASK] : []),
+    ...(researchMode === 'deep' && !reuseResearch ? [PLANNING_RESEARCH_TASK, SEARCHING_TASK, ANALYZING_GAPS_TASK] : []),
+    ...stages.map(stage => ({ name: `${stage.label}...`, icon: STAGE_ROLE_DEFAULTS[stage.role].icon, status: 'pending' as TaskStatus })),
+    ...(researchMode !== 'offline' ? [ATTRIBUTING_SOURCES_TASK] : []),
+];
+
+// Drops the holes left by agents that never answered and fills the legacy initial/refined fields.
+const withStageAliases = (details: GenerationDetails): GenerationDetails => {
+    const stages = (details.stages ?? []).map(run => {
+        const keepAnswered = <T,>(values?: T[]) => values?.filter((_, i) => run.outputs[i] !== undefined);
+        const answered = run.outputs.filter(output => output !== undefined);
+        return {
+            ...run,
+            outputs: answered,
+            ...(answered.length < run.outputs.length && { agentNumbers: keepAnswered(Array.from({ length: run.outputs.length }, (_, i) => i + 1)) }),
+            ...(run.agentPersonas && { agentPersonas: keepAnswered(run.agentPersonas) }),
+            ...(run.agentModels && { agentModels: keepAnswered(run.agentModels) }),
+        };
+    });
+    const initialRun = stages.find(run => run.role === 'brainstorm');
+    const refinedRun = [...stages].reverse().find(run => run.role === 'refine');
+    return {
+        ...details,
+        initial: initialRun?.outputs ?? details.initial,
+        refined: refinedRun?.outputs ?? details.refined,
+        ...(initialRun?.agentNumbers && { initialAgentNumbers: initialRun.agentNumbers }),
+        ...(refinedRun?.agentNumbers && { refinedAgentNumbers: refinedRun.agentNumbers }),
+        stages,
+    };
+};
+
+// Answers recorded before stage definitions were kept fall back to the current pipeline, as long as it has every recorded stage.
+const getRerunnableStages = (details: GenerationDetails, fallback: PipelineStage[]): PipelineStage[] | null => {
+    const runs = details.stages ?? [];
+    const stages = (details.pipeline ?? fallback).filter(stage => runs.some(run => run.stageId === stage.id));
+    return runs.length > 0 && stages.length === runs.length && getFinalSynthesizer(stages) ? stages : null;
+};
+
+// --- Trace ---
+// One model call of a run, retries included.
+interface TraceEntry {
+    label: string;
+    model: string;
+    temperature?: number;
+    systemInstruction?: string;
+    tools?: string[];
+    input: string; // Summary of the request: earlier turns are only counted.
+    output: string;
+    startedAt: number; // Milliseconds since the run started.
+    latencyMs: number;
+    finishReason?: string;
+    attempts: number;
+    streamed?: boolean;
+    error?: string;
+}
+
+const TRACE_INPUT_LIMIT = 4000;
+const TRACE_EXPORT_FORMAT = 'gemini-heavy-trace';
+
+const describeTraceRequest = (request: LLMRequest): Pick<TraceEntry, 'model' | 'temperature' | 'systemInstruction' | 'tools' | 'input'> => {
+    const { config = {} } = request;
+    const earlierTurns = typeof request.contents === 'string' ? 0 : request.contents.length - 1;
+    const lastParts = typeof request.contents === 'string' ? [] : request.contents[request.contents.length - 1]?.parts ?? [];
+    const attachments = lastParts.filter(part => !part.text).length;
+    const text = getLastUserText(request.contents);
+    const input = [
+        earlierTurns > 0 && `[${earlierTurns} ${earlierTurns === 1 ? 'turno anterior' : 'turnos anteriores'}]`,
+        text.length > TRACE_INPUT_LIMIT ? `${text.slice(0, TRACE_INPUT_LIMIT)}\n[... ${text.length - TRACE_INPUT_LIMIT} caracteres omitidos]` : text,
+        attachments > 0 && `[${attachments} ${attachments === 1 ? 'anexo' : 'anexos'}]`,
+    ].filter(Boolean).join('\n');
+    return {
+        model: request.model,
+        ...(config.temperature !== undefined && { temperature: config.temperature }),
+        ...(config.systemInstruction && { systemInstruction: config.systemInstruction }),
+        ...(config.tools && { tools: config.tools.flatMap(tool => Object.keys(tool)) }),
+        input,
+    };
+};
+
+const formatLatency = (ms: number): string => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const serializeTrace = (message: Message): string => {
+    const details = message.generationDetails;
+    return JSON.stringify({
+        format: TRACE_EXPORT_FORMAT,
+        version: 1,
+        messageId: message.id,
+        createdAt: message.createdAt,
+        researchMode: message.researchMode,
+        searchQuery: details?.searchQuery,
+        pipeline: details?.pipeline,
+        trace: details?.trace ?? [],
+    }, null, 2);
+};
+
+// --- Diff ---
+type DiffOp = 'equal' | 'insert' | 'delete';
+
+interface DiffSegment {
+    op: DiffOp;
+    text: string;
+}
+
+// Any text of a run that can be compared: a stage output or the final answer.
+interface ComparableText {
+    key: string;
+    label: string;
+    text: string;
+}
+
+// Beyond this the word table gets too large, and the differing middle is shown as one replacement.
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Words keep their trailing whitespace so the segments rebuild the original layout.
+const tokenizeWords = (text: string): string[] => text.match(/\S+\s*/g) ?? [];
+
+const countWords = (text: string): number => text.match(/\S+/g)?.length ?? 0;
+
+const diffWords = (before: string, after: string): DiffSegment[] => {
+    const a = tokenizeWords(before);
+    const b = tokenizeWords(after);
+    const keysA = a.map(token => token.trimEnd());
+    const keysB = b.map(token => token.trimEnd());
+    const segments: DiffSegment[] = [];
+    const push = (op: DiffOp, token: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.op === op) last.text += token;
+        else segments.push({ op, text: token });
+    };
+
+    let start = 0;
+    while (start < a.length && start < b.length && keysA[start] === keysB[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && keysA[endA - 1] === keysB[endB - 1]) {
+        endA--;
+        endB--;
+    }
+    b.slice(0, start).forEach(token => push('equal', token));
+
+    const n = endA - start;
+    const m = endB - start;
+    if (n * m > MAX_DIFF_CELLS) {
+        a.slice(start, endA).forEach(token => push('delete', token));
+        b.slice(start, endB).forEach(token => push('insert', token));
+    } else {
+        // lcs[i * (m + 1) + j] is the longest common subsequence of the remaining words from i and j on.
+        const lcs = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * (m + 1) + j] = keysA[start + i] === keysB[start + j]
+                    ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n && j < m) {
+            if (keysA[start + i] === keysB[start + j]) {
+                push('equal', b[start + j]);
+                i++;
+                j++;
+            } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+                push('delete', a[start + i++]);
+            } else {
+                push('insert', b[start + j++]);
+            }
+        }
+        while (i < n) push('delete', a[start + i++]);
+        while (j < m) push('insert', b[start + j++]);
+    }
+
+    b.slice(endB).forEach(token => push('equal', token));
+    return segments;
+};
+
+// Share of words both texts keep in common, from 0 to 1.
+const getDiffSimilarity = (segments: DiffSegment[]): number => {
+    const words = { equal: 0, insert: 0, delete: 0 };
+    segments.forEach(segment => words[segment.op] += countWords(segment.text));
+    const total = 2 * words.equal + words.insert + words.delete;
+    return total === 0 ? 1 : (2 * words.equal) / total;
+};
+
+const getComparableTexts = (message: Message): ComparableText[] => [
+    ...(message.generationDetails?.stages ?? []).flatMap(run => run.outputs.map((text, i) => ({
+        key: `${run.stageId}:${i}`,
+        label: run.outputs.length > 1 ? `${run.label} · Agente ${run.agentNumbers?.[i] ?? i + 1}` : run.label,
+        text,
+    }))),
+    { key: 'final', label: "Resposta final", text: getMessageText(message) },
+];
+
+// --- Personas ---
+interface Persona {
+    id: string;
+    name: string;
+    role: StageRole;
+    instruction: string;
+    isBuiltIn?: boolean;
+}
+
+interface PersonaAssignments {
+    initial: string[];
+    refine: string;
+    synthesize: string;
+    critic: string;
+}
+
+const builtInPersonaId = (role: StageRole): string => `builtin-${role}`;
+
+const BUILT_IN_PERSONAS: Persona[] = (Object.keys(STAGE_ROLE_DEFAULTS) as StageRole[]).map(role => ({
+    id: builtInPersonaId(role),
+    name: STAGE_ROLE_DEFAULTS[role].name,
+    role,
+    instruction: STAGE_ROLE_DEFAULTS[role].prompt,
+    isBuiltIn: true,
+}));
+
+const DEFAULT_PERSONA_ASSIGNMENTS: PersonaAssignments = {
+    initial: Array(4).fill(builtInPersonaId('brainstorm')),
+    refine: builtInPersonaId('refine'),
+    synthesize: builtInPersonaId('synthesize'),
+    critic: builtInPersonaId('critic'),
+};
+
+// A persona that was deleted after being assigned falls back to the stage's own prompt.
+const resolveStagePersona = (stage: PipelineStage, agentIndex: number, personas: Persona[]): { instruction: string; name?: string } => {
+    const personaId = stage.agentPersonaIds?.[agentIndex] || stage.personaId;
+    const persona = personaId ? personas.find(p => p.id === personaId) : undefined;
+    return persona ? { instruction: persona.instruction, name: persona.name } : { instruction: stage.prompt };
+};
+
+const serializePersonas = (personas: Persona[]): string =>
+    JSON.stringify({ version: 1, personas: personas.map(({ isBuiltIn, ...persona }) => persona) }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts an export file, a bare list or a single persona. Ids that clash with existing personas are replaced.
+const parsePersonaFile = (text: string, existing: Persona[]): Persona[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("O arquivo não é um JSON válido.");
+    }
+    const entries: unknown[] = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.personas) ? parsed.personas : [parsed];
+    const takenIds = new Set(existing.map(p => p.id));
+    return entries.map(entry => {
+        if (!isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim() || typeof entry.instruction !== 'string'
+            || typeof entry.role !== 'string' || !Object.hasOwn(STAGE_ROLE_DEFAULTS, entry.role)) {
+            throw new Error("Persona inválida. Cada item precisa de name, role (brainstorm, refine, synthesize ou critic) e instruction.");
+        }
+        const id = typeof entry.id === 'string' && !takenIds.has(entry.id) ? entry.id : createId();
+        takenIds.add(id);
+        return { id, name: entry.name.trim(), role: entry.role as StageRole, instruction: entry.instruction };
+    });
+};
+
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking right away can cancel the download in some browsers.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Usage & Cost ---
+interface UsageEntry extends TokenUsage {
+    label: string;
+    model: string;
+}
+
+// USD per million tokens. Thinking tokens are billed at the output price.
+interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+type PriceTable = Record<ModelName, ModelPrice>;
+
+// Day (YYYY-MM-DD, local time) -> model -> tokens.
+type UsageLedger = Record<string, Record<string, TokenUsage>>;
+
+const DEFAULT_PRICE_TABLE: PriceTable = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+};
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+
+const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+    promptTokens: a.promptTokens + b.promptTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+});
+
+const getTotalTokens = (usage: TokenUsage): number => usage.promptTokens + usage.outputTokens + usage.thinkingTokens;
+
+const calculateCost = (model: string, usage: TokenUsage, prices: PriceTable): number => {
+    const price = prices[model as ModelName];
+    if (!price) return 0;
+    return (usage.promptTokens * price.input + (usage.outputTokens + usage.thinkingTokens) * price.output) / 1_000_000;
+};
+
+const summarizeUsage = (entries: UsageEntry[], prices: PriceTable): { usage: TokenUsage; cost: number } => ({
+    usage: entries.reduce<TokenUsage>(addUsage, EMPTY_USAGE),
+    cost: entries.reduce((total, entry) => total + calculateCost(entry.model, entry, prices), 0),
+});
+
+const summarizeLedgerDay = (day: Record<string, TokenUsage> | undefined, prices: PriceTable) =>
+    summarizeUsage(Object.entries(day ?? {}).map(([model, usage]) => ({ label: model, model, ...usage })), prices);
+
+const getConversationUsage = (conversation: Conversation): UsageEntry[] =>
+    [...(conversation.usage ?? []), ...conversation.messages.flatMap(message => message.usage ?? [])];
+
+const getLocalDayKey = (date: Date = new Date()): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatTokenCount = (tokens: number): string =>
+    tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const formatCost = (usd: number): string => `US$ ${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatUsageBreakdown = (entries: UsageEntry[], prices: PriceTable): string =>
+    entries.map(entry =>
+        `${entry.label} (${MODEL_LABELS[entry.model as ModelName] ?? entry.model}): ${entry.promptTokens} entrada, ${entry.outputTokens} saída, ${entry.thinkingTokens} raciocínio · ${formatCost(calculateCost(entry.model, entry, prices))}`
+    ).join('\n');
+
+// --- Deep Research ---
+interface WebSource {
+    uri: string;
+    title: string;
+}
+
+interface ResearchFinding {
+    query: string;
+    hop: number;
+    summary: string;
+    sources: WebSource[];
+}
+
+interface ResearchSettings {
+    maxQueries: number; // Sub-queries planned for the first hop, and the cap on follow-ups per later hop.
+    maxHops: number;
+}
+
+const DEFAULT_RESEARCH_SETTINGS: ResearchSettings = { maxQueries: 4, maxHops: 2 };
+
+// A provider call that retries and records its usage under the given label.
+type TrackedGenerate = (request: LLMRequest, label: string) => Promise<LLMResponse>;
+
+const getWebSources = (metadata?: GroundingMetadata): WebSource[] =>
+    (metadata?.groundingChunks ?? []).filter(chunk => chunk.web).map(chunk => ({ uri: chunk.web!.uri ?? '', title: chunk.web!.title ?? chunk.web!.uri ?? '' }));
+
+const normalizeQuery = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sourceKey = (source: WebSource): string => source.uri.replace(/#.*$/, '').replace(/\/$/, '');
+
+const dedupeSources = (sources: WebSource[]): WebSource[] => {
+    const seen = new Set<string>();
+    return sources.filter(source => {
+        const key = sourceKey(source);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+const planResearchQueries = async (generate: TrackedGenerate, question: string, settings: ResearchSettings, signal: AbortSignal): Promise<string[]> => {
+    const response = await generate({
+        model: 'gemini-2.5-flash',
+        contents: `--- Question ---\n${question}\n\nPlan at most ${settings.maxQueries} search queries.`,
+        config: {
+            systemInstruction: RESEARCH_PLANNER_SYSTEM_INSTRUCTION,
+            responseMimeType: "application/json",
+            responseSchema: { type: Type.OBJECT, properties: { queries: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["queries"] },
+            abortSignal: signal,
+        }
+    }, "Plano de pesquisa");
+    const { queries } = parseJsonResponse<{ queries?: string[] }>(response.text);
+    const planned = (queries ?? []).filter((query, i, all) =>
+        typeof query === 'string' && query.trim() && all.findIndex(other => normalizeQuery(String(other)) === normalizeQuery(query)) === i
+    );
+    return planned.length > 0 ? planned.slice(0, settings.maxQueries) : [question];
+};
+
+const searchResearchQuery = async (generate: TrackedGenerate, model: ModelName, query: string, hop: number, signal: AbortSignal): Promise<ResearchFinding> => {
+    const response = await generate({
+        model,
+        contents: query,
+        config: { tools: [{ googleSearch: {} }], abortSignal: signal }
+    }, `Pesquisa (rodada ${hop}): ${query}`);
+    return { query, hop, summary: response.text, sources: getWebSources(response.groundingMetadata) };
+};
+
+const findResearchGaps = async (generate: TrackedGenerate, question: string, findings: ResearchFinding[], settings: ResearchSettings, signal: AbortSignal): Promise<string[]> => {
+    const findingsText = findings.map((finding, i) => `### Finding ${i + 1} (query: ${finding.query})\n${finding.summary}`).join('\n\n');
+    const response = await generate({
+        model: 'gemini-2.5-flash',
+        contents: `--- Question ---\n${question}\n\n--- Findings So Far ---\n${findingsText}\n\nPropose at most ${settings.maxQueries} follow-up queries.`,
+        config: {
+            systemInstruction: RESEARCH_GAP_SYSTEM_INSTRUCTION,
+            responseMimeType: "application/json",
+            responseSchema: { type: Type.OBJECT, properties: { followUpQueries: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["followUpQueries"] },
+            abortSignal: signal,
+        }
+    }, "Análise de lacunas");
+    const { followUpQueries } = parseJsonResponse<{ followUpQueries?: string[] }>(response.text);
+    const alreadyRun = new Set(findings.map(finding => normalizeQuery(finding.query)));
+    return (followUpQueries ?? [])
+        .filter(query => typeof query === 'string' && query.trim() && !alreadyRun.has(normalizeQuery(query)))
+        .slice(0, settings.maxQueries);
+};
+
+// Sources are numbered once across all findings so that the drafts can cite them as [n].
+const buildResearchDossier = (findings: ResearchFinding[]): { dossier: string; sources: WebSource[] } => {
+    const sources = dedupeSources(findings.flatMap(finding => finding.sources));
+    const sourceNumber = (source: WebSource) => sources.findIndex(s => sourceKey(s) === sourceKey(source)) + 1;
+    const sections = findings.map(finding => {
+        const cited = [...new Set(finding.sources.map(sourceNumber).filter(n => n > 0))];
+        return `## ${finding.query} (round ${finding.hop})\n${finding.summary}${cited.length > 0 ? `\nSources: ${cited.map(n => `[${n}]`).join(' ')}` : ''}`;
+    });
+    const sourceList = sources.map((source, i) => `[${i + 1}] ${source.title} — ${source.uri}`).join('\n');
+    return {
+        dossier: `\n\n--- Research Dossier ---\n${sections.join('\n\n')}\n\n## Sources\n${sourceList}\n--- End Research Dossier ---`,
+        sources,
+    };
+};
+
+// --- Citations ---
+interface CitationSpan {
+    text: string; // The sentence or segment exactly as it appears in the answer's markdown.
+    sources: number[]; // 1-based positions in the message's sources.
+    unsourced?: boolean; // A factual claim that no source backs.
+}
+
+const CITATION_HREF_PREFIX = '#citation-';
+const UNSOURCED_HREF = '#unsourced';
+
+// Sentence-like claims worth citing; code blocks, headings, table rows and short fragments are skipped.
+const splitClaims = (markdown: string): string[] => {
+    const claims: string[] = [];
+    let inCodeBlock = false;
+    for (const line of markdown.split('\n')) {
+        if (line.trim().startsWith('```')) {
+            inCodeBlock = !inCodeBlock;
+            continue;
+        }
+        if (inCodeBlock || /^\s*(#|\|)/.test(line)) continue;
+        const content = line.replace(/^\s*(>\s*)?(([-*+]|\d+\.)\s+)?/, '');
+        for (const sentence of content.split(/(?<=[.!?])\s+/)) {
+            if (sentence.trim().length >= 20) claims.push(sentence.trim());
+        }
+    }
+    return claims;
+};
+
+const sortByPosition = (markdown: string, citations: CitationSpan[]): CitationSpan[] =>
+    citations
+        .map(citation => ({ citation, position: markdown.indexOf(citation.text) }))
+        .filter(({ position }) => position !== -1)
+        .sort((a, b) => a.position - b.position)
+        .map(({ citation }) => citation);
+
+// Fast mode answers are grounded directly, so Gemini's own segment-to-chunk mapping is used as is.
+const getCitationsFromSupports = (markdown: string, metadata: GroundingMetadata | undefined, sources: WebSource[]): CitationSpan[] => {
+    if (sources.length === 0) return [];
+    const chunks = metadata?.groundingChunks ?? [];
+    const bySegment = new Map<string, Set<number>>();
+    for (const support of metadata?.groundingSupports ?? []) {
+        const segment = support.segment?.text?.trim();
+        if (!segment) continue;
+        const numbers = (support.groundingChunkIndices ?? [])
+            .map(index => sources.findIndex(source => source.uri === chunks[index]?.web?.uri) + 1)
+            .filter(number => number > 0);
+        if (numbers.length === 0) continue;
+        bySegment.set(segment, new Set([...(bySegment.get(segment) ?? []), ...numbers]));
+    }
+    const supported: CitationSpan[] = [...bySegment].map(([text, numbers]) => ({ text, sources: [...numbers].sort((a, b) => a - b) }));
+    const unsourced: CitationSpan[] = splitClaims(markdown)
+        .filter(claim => !supported.some(span => claim.includes(span.text) || span.text.includes(claim)))
+        .map(text => ({ text, sources: [], unsourced: true }));
+    return sortByPosition(markdown, [...supported, ...unsourced]);
+};
+
+// Balanced and deep answers are written from notes, so a separate call maps each sentence back to the sources.
+const attributeCitations = async (generate: TrackedGenerate, answer: string, sources: WebSource[], researchNotes: string, signal: AbortSignal): Promise<CitationSpan[]> => {
+    const claims = splitClaims(answer);
+    if (claims.length === 0 || sources.length === 0) return [];
+    const response = await generate({
+        model: 'gemini-2.5-flash',
+        contents: [
+            `--- Research Notes ---${researchNotes}`,
+            `--- Sources ---\n${sources.map((source, i) => `[${i + 1}] ${source.title} — ${source.uri}`).join('\n')}`,
+            `--- Sentences ---\n${claims.map((claim, i) => `${i + 1}. ${claim}`).join('\n')}`,
+        ].join('\n\n'),
+        config: {
+            systemInstruction: CITATION_SYSTEM_INSTRUCTION,
+            temperature: 0,
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    attributions: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                sentence: { type: Type.INTEGER },
+                                sources: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                                needsSource: { type: Type.BOOLEAN },
+                            },
+                            required: ["sentence", "sources", "needsSource"]
+                        }
+                    }
+                },
+                required: ["attributions"]
+            },
+            abortSignal: signal,
+        }
+    }, "Atribuição de fontes");
+    const { attributions } = parseJsonResponse<{ attributions?: { sentence: number; sources?: number[]; needsSource?: boolean }[] }>(response.text);
+    return claims.flatMap((text, i): CitationSpan[] => {
+        const attribution = attributions?.find(a => a.sentence === i + 1);
+        const numbers = [...new Set((attribution?.sources ?? []).filter(n => Number.isInteger(n) && n >= 1 && n <= sources.length))].sort((a, b) => a - b);
+        if (numbers.length > 0) return [{ text, sources: numbers }];
+        return attribution?.needsSource === false ? [] : [{ text, sources: [], unsourced: true }];
+    });
+};
+
+// Renders one marker; null stands for an unsourced claim.
+type CitationMarkerFormat = (source: number | null) => string;
+
+const linkCitationMarker: CitationMarkerFormat = source => source === null ? `[?](${UNSOURCED_HREF})` : `[${source}](${CITATION_HREF_PREFIX}${source})`;
+
+// Appends markers after each cited sentence; by default [n] links that MarkdownLink renders as footnotes.
+const applyCitations = (markdown: string, citations: CitationSpan[], formatMarker: CitationMarkerFormat = linkCitationMarker): string => {
+    let result = '';
+    let cursor = 0;
+    for (const citation of citations) {
+        const start = markdown.indexOf(citation.text, cursor);
+        if (start === -1) continue;
+        const end = start + citation.text.length;
+        const markers = citation.sources.length > 0
+            ? citation.sources.map(n => formatMarker(n)).join('')
+            : citation.unsourced ? formatMarker(null) : '';
+        result += markdown.slice(cursor, end) + markers;
+        cursor = end;
+    }
+    return result + markdown.slice(cursor);
+};
+
+const getHostname = (uri: string): string => {
+    try {
+        return new URL(uri).hostname;
+    } catch {
+        return uri;
+    }
+};
+
+// --- Export & Import ---
+type ExportFormat = 'markdown' | 'json' | 'html';
+
+const CONVERSATION_EXPORT_FORMAT = 'gemini-heavy-conversations';
+const CONVERSATION_EXPORT_VERSION = 1;
+
+interface ExportedFile {
+    name: string;
+    type: string;
+    lastModified: number;
+    data: string; // Base64 file contents.
+}
+
+type ExportedMessage = Omit<Message, 'attachedFiles' | 'isStreaming'> & { attachedFiles?: ExportedFile[] };
+type ExportedConversation = Omit<Conversation, 'messages'> & { messages: ExportedMessage[] };
+
+interface ConversationExportFile {
+    format: typeof CONVERSATION_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    conversations: ExportedConversation[];
+}
+
+const getMessageText = (message: Message): string => message.parts.map(part => 'text' in part ? part.text : '').join('');
+
+const fileToBase64 = async (file: File): Promise<string> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const base64ToFile = ({ name, type, lastModified, data }: ExportedFile): File =>
+    new File([Uint8Array.from(atob(data), char => char.charCodeAt(0))], name, { type, lastModified });
+
+// Lossless: everything a message carries, including the pipeline details and the attached files themselves.
+const serializeConversations = async (conversations: Conversation[]): Promise<string> => {
+    const exported: ConversationExportFile = {
+        format: CONVERSATION_EXPORT_FORMAT,
+        version: CONVERSATION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        conversations: await Promise.all(conversations.map(async ({ messages, ...meta }) => ({
+            ...meta,
+            messages: await Promise.all(messages.map(async ({ attachedFiles, isStreaming, ...message }): Promise<ExportedMessage> => ({
+                ...message,
+                ...(attachedFiles && attachedFiles.length > 0 && {
+                    attachedFiles: await Promise.all(attachedFiles.map(async file => ({ name: file.name, type: file.type, lastModified: file.lastModified, data: await fileToBase64(file) }))),
+                }),
+            }))),
+        }))),
+    };
+    return JSON.stringify(exported, null, 2);
+};
+
+// Conversations whose id is already taken get a fresh one, so an import never overwrites local history.
+const parseConversationsFile = (text: string, existing: Conversation[]): Conversation[] => {
+    let parsed: ConversationExportFile;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("O arquivo não é um JSON válido.");
+    }
+    if (parsed?.format !== CONVERSATION_EXPORT_FORMAT || !Array.isArray(parsed.conversations)) {
+        throw new Error("O arquivo não é uma exportação de conversas do Gemini Heavy.");
+    }
+    if (parsed.version > CONVERSATION_EXPORT_VERSION) {
+        throw new Error("Este arquivo foi exportado por uma versão mais nova do aplicativo.");
+    }
+    const takenIds = new Set(existing.map(c => c.id));
+    return parsed.conversations.map(({ messages, ...meta }) => {
+        const isValid = typeof meta.title === 'string' && Array.isArray(messages)
+            && messages.every(m => (m?.role === 'user' || m?.role === 'model') && Array.isArray(m.parts));
+        if (!isValid) throw new Error("Conversa inválida. Cada conversa precisa de title e messages com role e parts.");
+        const id = typeof meta.id === 'string' && !takenIds.has(meta.id) ? meta.id : createId();
+        takenIds.add(id);
+        return withMessageTree({
+            ...meta,
+            id,
+            messages: messages.map(({ attachedFiles, ...message }) => ({
+                ...message,
+                ...(attachedFiles && attachedFiles.length > 0 && { attachedFiles: attachedFiles.map(base64ToFile) }),
+            })),
+        });
+    });
+};
+
+const getRoleLabel = (role: Message['role']): string => role === 'user' ? "Usuário" : "Assistente";
+
+// Answer text with its citations as GFM footnotes; labels are prefixed so they stay unique across a whole export.
+const messageToMarkdown = (message: Message, footnotePrefix: string): string => {
+    const text = getMessageText(message);
+    const sources = message.sources ?? [];
+    if (sources.length === 0) return text;
+    if (message.citations) {
+        const body = applyCitations(text, message.citations, source => source === null ? ' [?]' : `[^${footnotePrefix}-${source}]`);
+        const footnotes = sources.map((source, i) => `[^${footnotePrefix}-${i + 1}]: [${source.title}](${source.uri})`);
+        return `${body}\n\n${footnotes.join('\n')}`;
+    }
+    return `${text}\n\n**Fontes**\n\n${sources.map((source, i) => `${i + 1}. [${source.title}](${source.uri})`).join('\n')}`;
+};
+
+const toolOutputToMarkdown = (output: ToolOutput): string => {
+    const results = output.result.map(part => 'text' in part ? `\`\`\`\n${part.text}\n\`\`\`` : "*(imagem)*");
+    return `\`\`\`python\n${output.code}\n\`\`\`\n\n**Saída**\n\n${results.join('\n\n')}`;
+};
+
+const conversationToMarkdown = (conversation: Conversation, conversationIndex = 0): string => {
+    const sections = [`# ${conversation.title}`];
+    getActivePath(conversation).forEach((message, index) => {
+        sections.push(`## ${getRoleLabel(message.role)}`);
+        if (message.attachedFiles && message.attachedFiles.length > 0) {
+            sections.push(`*Anexos: ${message.attachedFiles.map(file => file.name).join(', ')}*`);
+        }
+        sections.push(messageToMarkdown(message, `c${conversationIndex + 1}m${index + 1}`));
+        message.toolOutputs?.forEach(output => sections.push(toolOutputToMarkdown(output)));
+    });
+    return sections.join('\n\n');
+};
+
+const EXPORT_HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 820px; margin: 0 auto; padding: 2rem 1rem; color: #1f2937; line-height: 1.6; }
+h1 { font-size: 1.5rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.5rem; margin-top: 2.5rem; }
+.export-meta { color: #6b7280; font-size: 0.85rem; }
+.message { border: 1px solid #e5e7eb; border-radius: 0.75rem; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message--user { background: #f3f4f6; }
+.message-role { font-size: 0.75rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.5px; color: #6b7280; }
+.attachments { font-size: 0.85rem; color: #6b7280; }
+.attachments img, .tool-output img { max-width: 100%; border-radius: 0.5rem; display: block; margin: 0.5rem 0; }
+pre { background: #111827; color: #f9fafb; padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; }
+code { font-family: 'SFMono-Regular', Consolas, monospace; font-size: 0.9em; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #e5e7eb; padding: 0.25rem 0.5rem; }
+details { margin-top: 0.75rem; font-size: 0.9rem; }
+summary { cursor: pointer; color: #2563eb; }
+.stage-output { border-left: 3px solid #e5e7eb; padding-left: 0.75rem; margin: 0.5rem 0; }
+.footnotes { font-size: 0.85rem; color: #6b7280; }
+.sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0, 0, 0, 0); }
+`;
+
+const ExportedDetails: FC<{ details: GenerationDetails }> = ({ details }) => {
+    const stages: StageRun[] = (details.stages ?? [
+        { stageId: 'initial', role: 'brainstorm' as StageRole, label: "Rascunhos iniciais", outputs: details.initial, agentNumbers: details.initialAgentNumbers },
+        { stageId: 'refined', role: 'refine' as StageRole, label: "Rascunhos refinados", outputs: details.refined, agentNumbers: details.refinedAgentNumbers },
+    ]).filter(stage => stage.outputs.length > 0);
+    // Fast answers only carry a trace, which is left to the inspector's JSON export.
+    if (stages.length === 0 && !details.research?.length) return null;
+    return (
+        <details>
+            <summary>Processo de geração</summary>
+            {details.research && details.research.length > 0 && (
+                <>
+                    <h4>Pesquisa Profunda</h4>
+                    {details.research.map((finding, i) => (
+                        <div key={i} className="stage-output">
+                            <strong>{finding.query}</strong>
+                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{finding.summary}</ReactMarkdown>
+                        </div>
+                    ))}
+                </>
+            )}
+            {stages.map(stage => (
+                <div key={stage.stageId}>
+                    <h4>{stage.label}</h4>
+                    {stage.outputs.map((output, i) => (
+                        <div key={i} className="stage-output">
+                            <strong>Agente {stage.agentNumbers?.[i] ?? i + 1}{stage.agentPersonas?.[i] ? ` · ${stage.agentPersonas[i]}` : ''}</strong>
+                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{output}</ReactMarkdown>
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </details>
+    );
+};
+
+const ExportedMessageView: FC<{ message: Message; footnotePrefix: string }> = ({ message, footnotePrefix }) => {
+    const images = message.parts.filter(part => part.inlineData?.mimeType?.startsWith('image/'));
+    return (
+        <section className={`message message--${message.role}`}>
+            <div className="message-role">{getRoleLabel(message.role)}</div>
+            {message.attachedFiles && message.attachedFiles.length > 0 && (
+                <div className="attachments">
+                    Anexos: {message.attachedFiles.map(file => file.name).join(', ')}
+                    {images.map((part, i) => <img key={i} src={`data:${part.inlineData!.mimeType};base64,${part.inlineData!.data}`} alt="Anexo" />)}
+                </div>
+            )}
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{messageToMarkdown(message, footnotePrefix)}</ReactMarkdown>
+            {message.toolOutputs?.map((output, i) => (
+                <div key={i} className="tool-output">
+                    <pre><code>{output.code}</code></pre>
+                    {output.result.map((part, j) => 'text' in part
+                        ? <pre key={j}>{part.text}</pre>
+                        : part.inlineData && <img key={j} src={`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`} alt="Resultado do código" />)}
+                </div>
+            ))}
+            {message.generationDetails && <ExportedDetails details={message.generationDetails} />}
+        </section>
+    );
+};
+
+// Self-contained: inline styles and images, no scripts, so the file opens anywhere.
+const conversationsToHtml = (conversations: Conversation[], renderToStaticMarkup: (element: React.ReactElement) => string): string => {
+    const title = conversations.length === 1 ? conversations[0].title : "Conversas do Gemini Heavy";
+    const markup = renderToStaticMarkup(
+        <html lang="pt-BR">
+            <head>
+                <meta charSet="utf-8" />
+                <meta name="viewport" content="width=device-width, initial-scale=1" />
+                <title>{title}</title>
+                <style dangerouslySetInnerHTML={{ __html: EXPORT_HTML_STYLES }} />
+            </head>
+            <body>
+                <p className="export-meta">Exportado em {new Date().toLocaleString('pt-BR')}</p>
+                {conversations.map((conversation, c) => (
+                    <article key={conversation.id}>
+                        <h1>{conversation.title}</h1>
+                        {getActivePath(conversation).map((message, m) => (
+                            <ExportedMessageView key={m} message={message} footnotePrefix={`c${c + 1}m${m + 1}`} />
+                        ))}
+                    </article>
+                ))}
+            </body>
+        </html>
+    );
+    return `<!DOCTYPE html>${markup}`;
+};
+
+const toFileSlug = (title: string): string =>
+    title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'conversa';
+
+const exportConversations = async (conversations: Conversation[], format: ExportFormat) => {
+    const baseName = conversations.length === 1 ? toFileSlug(conversations[0].title) : `gemini-heavy-conversas-${getLocalDayKey()}`;
+    if (format === 'json') {
+        downloadFile(`${baseName}.json`, await serializeConversations(conversations), 'application/json');
+    } else if (format === 'markdown') {
+        downloadFile(`${baseName}.md`, conversations.map(conversationToMarkdown).join('\n\n---\n\n'), 'text/markdown');
+    } else {
+        // The server renderer is only needed here, so it stays out of the main bundle.
+        const { renderToStaticMarkup } = await import('react-dom/server');
+        downloadFile(`${baseName}.html`, conversationsToHtml(conversations, renderToStaticMarkup), 'text/html');
+    }
+};
+
+// --- Search ---
+type SearchField = 'message' | 'draft' | 'source';
+
+interface SearchFilters {
+    from: string; // yyyy-mm-dd, inclusive; empty for no bound.
+    to: string;
+    researchMode: ResearchMode | 'any';
+    errorsOnly: boolean;
+}
+
+interface SearchEntry {
+    conversationId: string;
+    messageIndex: number;
+    field: SearchField;
+    text: string;
+    folded: string;
+}
+
+interface SearchHit {
+    conversationId: string;
+    conversationTitle: string;
+    messageIndex: number;
+    messageId: string;
+    role: Message['role'];
+    field: SearchField;
+    timestamp: number;
+    snippet: string;
+    highlights: [number, number][]; // Ranges within the snippet.
+}
+
+const DEFAULT_SEARCH_FILTERS: SearchFilters = { from: '', to: '', researchMode: 'any', errorsOnly: false };
+const MAX_SEARCH_HITS = 100;
+const SNIPPET_CONTEXT = 60;
+
+const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+    message: "Mensagem",
+    draft: "Rascunho de agente",
+    source: "Fonte",
+};
+
+// Lowercases and strips accents one code unit at a time, so positions in the folded text match the original.
+const foldText = (text: string): string =>
+    text.split('').map(char => char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().charAt(0) || char).join('');
+
+// Conversation ids are creation timestamps: Date.now() in decimal, or base 36 for createId().
+const getConversationTimestamp = (conversation: Conversation): number => {
+    const decimal = Number(conversation.id);
+    return Number.isFinite(decimal) ? decimal : parseInt(conversation.id.split('-')[0], 36) || 0;
+};
+
+const getDraftTexts = (details: GenerationDetails): string[] => [
+    ...(details.research ?? []).map(finding => finding.summary),
+    ...(details.stages ? details.stages.flatMap(run => run.outputs) : [...details.initial, ...details.refined]),
+];
+
+// Conversations keep their object identity until they change, so untouched ones reuse their entries.
+const searchIndexCache = new WeakMap<Conversation, SearchEntry[]>();
+
+const indexConversation = (conversation: Conversation): SearchEntry[] =>
+    conversation.messages.flatMap((message, messageIndex) => {
+        const texts: [SearchField, string][] = [
+            ['message', getMessageText(message)],
+            ...(message.generationDetails ? getDraftTexts(message.generationDetails).map((text): [SearchField, string] => ['draft', text]) : []),
+            ...(message.sources ?? []).map((source): [SearchField, string] => ['source', source.title]),
+        ];
+        return texts
+            .filter(([, text]) => text.trim())
+            .map(([field, text]) => ({ conversationId: conversation.id, messageIndex, field, text, folded: foldText(text) }));
+    });
+
+const buildSearchIndex = (conversations: Conversation[]): SearchEntry[] =>
+    conversations.flatMap(conversation => {
+        let entries = searchIndexCache.get(conversation);
+        if (!entries) {
+            entries = indexConversation(conversation);
+            searchIndexCache.set(conversation, entries);
+        }
+        return entries;
+    });
+
+const getSearchTerms = (query: string): string[] => [...new Set(foldText(query).split(/\s+/).filter(Boolean))];
+
+const hasActiveFilters = (filters: SearchFilters): boolean =>
+    !!filters.from || !!filters.to || filters.researchMode !== 'any' || filters.errorsOnly;
+
+const buildSnippet = (entry: SearchEntry, terms: string[]): Pick<SearchHit, 'snippet' | 'highlights'> => {
+    const firstMatch = Math.min(...terms.map(term => entry.folded.indexOf(term)).filter(index => index !== -1));
+    const center = Number.isFinite(firstMatch) ? firstMatch : 0;
+    const start = Math.max(0, center - SNIPPET_CONTEXT);
+    const end = Math.min(entry.text.length, center + SNIPPET_CONTEXT * 2);
+    const prefix = start > 0 ? '…' : '';
+    const snippet = `${prefix}${entry.text.slice(start, end).replace(/\s+/g, ' ')}${end < entry.text.length ? '…' : ''}`;
+    // Whitespace runs collapse above, so highlights are found again in the snippet itself.
+    const foldedSnippet = foldText(snippet);
+    const highlights: [number, number][] = [];
+    for (const term of terms) {
+        for (let index = foldedSnippet.indexOf(term); index !== -1; index = foldedSnippet.indexOf(term, index + term.length)) {
+            highlights.push([index, index + term.length]);
+        }
+    }
+    return { snippet, highlights: highlights.sort((a, b) => a[0] - b[0]) };
+};
+
+// Every term must appear somewhere in the message (its text, drafts or source titles); filters alone also work.
+const searchConversations = (conversations: Conversation[], index: SearchEntry[], query: string, filters: SearchFilters): SearchHit[] => {
+    const terms = getSearchTerms(query);
+    if (terms.length === 0 && !hasActiveFilters(filters)) return [];
+    const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+    const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+    const conversationsById = new Map(conversations.map(c => [c.id, c]));
+    const entriesByMessage = new Map<string, SearchEntry[]>();
+    for (const entry of index) {
+        const key = `${entry.conversationId}:${entry.messageIndex}`;
+        entriesByMessage.set(key, [...(entriesByMessage.get(key) ?? []), entry]);
+    }
+
+    const hits: SearchHit[] = [];
+    for (const entries of entriesByMessage.values()) {
+        const { conversationId, messageIndex } = entries[0];
+        const conversation = conversationsById.get(conversationId);
+        const message = conversation?.messages[messageIndex];
+        if (!conversation || !message) continue;
+        // A question takes the research mode of its latest answer.
+        const answer = message.role === 'user' ? conversation.messages.filter(m => m.parentId === message.id).pop() : message;
+        const timestamp = message.createdAt ?? getConversationTimestamp(conversation);
+        if (timestamp < from || timestamp > to) continue;
+        if (filters.researchMode !== 'any' && answer?.researchMode !== filters.researchMode) continue;
+        if (filters.errorsOnly && !message.isError) continue;
+        if (!terms.every(term => entries.some(entry => entry.folded.includes(term)))) continue;
+
+        const best = entries.find(entry => terms.every(term => entry.folded.includes(term)))
+            ?? entries.find(entry => terms.some(term => entry.folded.includes(term)))
+            ?? entries[0];
+        hits.push({
+            conversationId,
+            conversationTitle: conversation.title,
+            messageIndex,
+            messageId: message.id,
+            role: message.role,
+            field: best.field,
+            timestamp,
+            ...buildSnippet(best, terms),
+        });
+    }
+    return hits.sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_SEARCH_HITS);
+};
+
+const HighlightedSnippet: FC<{ text: string; highlights: [number, number][] }> = ({ text, highlights }) => {
+    const pieces: ReactNode[] = [];
+    let cursor = 0;
+    highlights.forEach(([start, end], i) => {
+        if (start < cursor) return;
+        pieces.push(text.slice(cursor, start), <mark key={i}>{text.slice(start, end)}</mark>);
+        cursor = end;
+    });
+    pieces.push(text.slice(cursor));
+    return <span className="search-hit-snippet">{pieces}</span>;
+};
+
+const SearchResultsList: FC<{ hits: SearchHit[]; onSelect: (hit: SearchHit) => void }> = ({ hits, onSelect }) => {
+    if (hits.length === 0) {
+        return <p className="search-empty">Nenhum resultado encontrado.</p>;
+    }
+    return (
+        <ul className="search-hits">
+            {hits.map(hit => (
+                <li key={`${hit.conversationId}:${hit.messageIndex}`}>
+                    <button className="search-hit" onClick={() => onSelect(hit)}>
+                        <span className="search-hit-header">
+                            <span className="conversation-title">{hit.conversationTitle}</span>
+                            <span className="search-hit-date">{new Date(hit.timestamp).toLocaleDateString('pt-BR')}</span>
+                        </span>
+                        <span className="search-hit-meta">{getRoleLabel(hit.role)} · {SEARCH_FIELD_LABELS[hit.field]}</span>
+                        <HighlightedSnippet text={hit.snippet} highlights={hit.highlights} />
+                    </button>
+                </li>
+            ))}
+            {hits.length === MAX_SEARCH_HITS && <li className="search-empty">Mostrando os {MAX_SEARCH_HITS} resultados mais recentes. Refine a busca para ver outros.</li>}
+        </ul>
+    );
+};
+
+// --- Organization ---
+type SidebarView = 'active' | 'archived' | 'trash';
+type SidebarGrouping = 'none' | 'folder' | 'tag';
+
+interface ConversationGroup {
+    key: string;
+    label: string;
+    conversations: Conversation[];
+}
+
+const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SIDEBAR_VIEW_LABELS: Record<SidebarView, string> = {
+    active: "Conversas",
+    archived: "Arquivadas",
+    trash: "Lixeira",
+};
+
+const isInSidebarView = (conversation: Conversation, view: SidebarView): boolean => {
+    if (view === 'trash') return !!conversation.deletedAt;
+    return !conversation.deletedAt && !!conversation.archived === (view === 'archived');
+};
+
+const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ');
+
+const uniqueSorted = (values: string[]): string[] => [...new Set(values)].sort((a, b) => a.localeCompare(b, 'pt-BR'));
+
+const getFolders = (conversations: Conversation[]): string[] =>
+    uniqueSorted(conversations.flatMap(c => c.folder && !c.deletedAt ? [c.folder] : []));
+
+const getTags = (conversations: Conversation[]): string[] =>
+    uniqueSorted(conversations.flatMap(c => c.deletedAt ? [] : c.tags ?? []));
+
+// Pinned conversations come first; otherwise the stored (most recent first) order is kept.
+const sortPinnedFirst = (conversations: Conversation[]): Conversation[] =>
+    [...conversations].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+
+// With tag grouping a conversation is listed under each of its tags.
+const groupConversations = (conversations: Conversation[], grouping: SidebarGrouping): ConversationGroup[] => {
+    if (grouping === 'none') {
+        const pinned = conversations.filter(c => c.pinned);
+        return [
+            { key: 'pinned', label: "Fixadas", conversations: pinned },
+            { key: 'all', label: pinned.length > 0 ? "Recentes" : '', conversations: conversations.filter(c => !c.pinned) },
+        ].filter(group => group.conversations.length > 0);
+    }
+    const labelsOf = (c: Conversation): string[] => grouping === 'folder' ? (c.folder ? [c.folder] : []) : c.tags ?? [];
+    const labels = uniqueSorted(conversations.flatMap(labelsOf));
+    const groups = labels.map(label => ({ key: `${grouping}:${label}`, label, conversations: sortPinnedFirst(conversations.filter(c => labelsOf(c).includes(label))) }));
+    const ungrouped = sortPinnedFirst(conversations.filter(c => labelsOf(c).length === 0));
+    if (ungrouped.length > 0) {
+        groups.push({ key: `${grouping}:none`, label: grouping === 'folder' ? "Sem pasta" : "Sem tags", conversations: ungrouped });
+    }
+    return groups;
+};
+
+const purgeExpiredTrash = (conversations: Conversation[], now: number): Conversation[] =>
+    conversations.filter(c => !c.deletedAt || now - c.deletedAt < TRASH_RETENTION_MS);
+
+// --- Branching ---
+// Messages form a tree through parentId: editing a question or regenerating an answer adds a sibling
+// instead of overwriting it. The chat shows the path from the root to activeLeafId.
+const getPathTo = (conversation: Conversation, messageId: string | undefined): Message[] => {
+    const byId = new Map(conversation.messages.map(m => [m.id, m]));
+    const path: Message[] = [];
+    for (let message = messageId ? byId.get(messageId) : undefined; message; message = message.parentId ? byId.get(message.parentId) : undefined) {
+        path.unshift(message);
+    }
+    return path;
+};
+
+const getActivePath = (conversation: Conversation): Message[] => getPathTo(conversation, conversation.activeLeafId);
+
+const getSiblings = (conversation: Conversation, message: Message): Message[] =>
+    conversation.messages.filter(m => m.parentId === message.parentId);
+
+// Follows the most recent child at each level, so a branch reopens at its latest turn.
+const getLatestLeaf = (conversation: Conversation, messageId: string): string => {
+    let leafId = messageId;
+    for (let children = conversation.messages.filter(m => m.parentId === leafId); children.length > 0; children = conversation.messages.filter(m => m.parentId === leafId)) {
+        leafId = children[children.length - 1].id;
+    }
+    return leafId;
+};
+
+// Adds a message below the active leaf and makes it the new leaf.
+const appendMessage = (conversation: Conversation, message: Message): Conversation => ({
+    ...conversation,
+    messages: [...conversation.messages, { ...message, parentId: conversation.activeLeafId }],
+    activeLeafId: message.id,
+});
+
+// Conversations saved before branching are a flat list; each message becomes the child of the one before it.
+const withMessageTree = (conversation: Conversation): Conversation => {
+    if (conversation.messages.every(m => m.id)) return conversation;
+    const messages = conversation.messages.reduce<Message[]>((chain, message) => [
+        ...chain,
+        message.id ? message : { ...message, id: createId(), parentId: chain[chain.length - 1]?.id },
+    ], []);
+    return { ...conversation, messages, activeLeafId: messages[messages.length - 1]?.id };
+};
+
+const toHistory = (messages: Message[]): Content[] =>
+    messages
+        .map(msg => ({
+            role: msg.role,
+            parts: msg.parts.filter((p): p is { text: string } =>
+                'text' in p && typeof p.text === 'string' && p.text.trim() !== ''
+            ),
+        }))
+        .filter(msg => msg.parts.length > 0);
+
+// --- History Budget ---
+// Turns that no longer fit the budget are folded into a rolling summary stored on the conversation.
+const HISTORY_TOKEN_BUDGET = 12000;
+const HISTORY_SUMMARY_RESERVE = 800; // Kept free for the summary whenever some turns fall outside the window.
+const HISTORY_SUMMARY_ACK = "Entendido. Vou levar esse resumo em conta.";
+const MAX_HISTORY_SUMMARIES = 8;
+
+interface HistorySummary {
+    text: string;
+    untilMessageId: string; // Last message folded in; the summary holds on any branch that passes through it.
+    messageCount: number;
+    updatedAt: number;
+}
+
+interface HistoryBudgetInfo {
+    budget: number;
+    included: number;
+    includedTokens: number;
+    summarized: number; // Messages the summary stands for, including ones folded in by earlier runs.
+    newlySummarized: number;
+    summaryTokens: number;
+    dropped: number;
+    fellBack?: boolean; // Token counting failed and the budget used estimates.
+    files?: { name: string; uploaded: boolean }[]; // Earlier attachments sent along, outside the token budget.
+}
+
+interface HistoryEntry {
+    message: Message;
+    content: Content;
+}
+
+const toHistoryEntries = (messages: Message[]): HistoryEntry[] =>
+    messages.flatMap(message => toHistory([message]).map(content => ({ message, content })));
+
+// Walks back from the newest turn while whole turns fit. The window opens on a user turn so that
+// the summary exchange placed in front of it keeps the roles alternating.
+const selectHistoryWindow = async (entries: HistoryEntry[], budget: number, count: (entry: HistoryEntry) => Promise<number>): Promise<number> => {
+    let start = entries.length;
+    let tokens = 0;
+    for (let i = entries.length - 1; i >= 0; i--) {
+        tokens += await count(entries[i]);
+        if (tokens > budget) break;
+        start = i;
+    }
+    while (start < entries.length && entries[start].content.role !== 'user') start++;
+    return start;
+};
+
+const buildHistorySummaryPrompt = (previousSummary: string | undefined, entries: HistoryEntry[]): string =>
+    `Resumo atual:\n${previousSummary || '(vazio)'}\n\nNovos turnos:\n${entries
+        .map(({ content }) => `${content.role === 'user' ? 'Usuário' : 'Assistente'}: ${content.parts!.map(part => part.text).join('')}`)
+        .join('\n\n')}`;
+
+const buildSummaryHistory = (summary: string): Content[] => [
+    { role: 'user', parts: [{ text: `--- Resumo da conversa até aqui ---\n${summary}\n--- Fim do resumo ---` }] },
+    { role: 'model', parts: [{ text: HISTORY_SUMMARY_ACK }] },
+];
+
+// --- Context Files ---
+// Files attached to earlier questions travel with every later turn until the user unpins them. They are sent
+// in one exchange ahead of the history, so they stay visible after their own turn is summarized.
+const MAX_INLINE_CONTEXT_BYTES = 1024 * 1024; // Larger files go through the provider's file upload, when it has one.
+const UPLOAD_EXPIRY_MARGIN_MS = 10 * 60 * 1000;
+const CONTEXT_FILES_ACK = "Entendido. Vou considerar esses arquivos.";
+
+interface UploadedFileRef {
+    uri: string;
+    mimeType: string;
+    expiresAt: number;
+}
+
+interface ContextFile {
+    key: string; // `${messageId}:${partIndex}`
+    name: string;
+    mimeType: string;
+    size: number; // Decoded bytes.
+    part: Part;
+    pinned: boolean;
+}
+
+const getContextFiles = (messages: Message[], unpinned: string[] = []): ContextFile[] =>
+    messages.filter(message => message.role === 'user').flatMap(message => {
+        let fileIndex = 0;
+        return message.parts.flatMap((part, partIndex) => {
+            if (!part.inlineData?.data) return [];
+            const file = message.attachedFiles?.[fileIndex++];
+            const key = `${message.id}:${partIndex}`;
+            return [{
+                key,
+                name: file?.name ?? `Anexo ${fileIndex}`,
+                mimeType: part.inlineData.mimeType ?? '',
+                size: Math.floor(part.inlineData.data.length * 3 / 4),
+                part,
+                pinned: !unpinned.includes(key),
+            }];
+        });
+    });
+
+const buildContextFilesHistory = (files: ContextFile[], parts: Part[]): Content[] => files.length > 0 ? [
+    { role: 'user', parts: [{ text: `Arquivos anexados anteriormente nesta conversa: ${files.map(file => file.name).join(', ')}.` }, ...parts] },
+    { role: 'model', parts: [{ text: CONTEXT_FILES_ACK }] },
+] : [];
+
+// --- Long-Term Memory ---
+type MemoryCategory = 'preference' | 'fact' | 'project' | 'other';
+
+interface MemoryRecord {
+    id: string;
+    text: string;
+    category: MemoryCategory;
+    createdAt: number;
+    lastUsedAt: number;
+    conversationId?: string; // Conversation the memory was learned in; absent for memories added by hand.
+    pinned?: boolean; // Pinned memories are never evicted, edited by the agent or cleared.
+    embedding?: { model: string; vector: number[] }; // Cached for retrieval; recomputed when the text or the embedding model changes.
+}
+
+type EmbeddingBackend = 'provider' | 'local';
+
+interface MemoryRetrievalSettings {
+    backend: EmbeddingBackend;
+    topK: number; // Most relevant unpinned memories injected per question.
+    threshold: number; // Minimum cosine similarity to the question.
+}
+
+// Why a memory was injected into a message's prompt.
+interface InjectedMemory {
+    id: string;
+    text: string;
+    category: MemoryCategory;
+    score: number;
+    reason: 'pinned' | 'relevant';
+}
+
+interface MemoryRetrievalInfo {
+    model: string;
+    topK: number;
+    threshold: number;
+    candidates: number;
+    fellBack?: boolean; // The provider's embeddings failed and the local backend was used instead.
+    memories: InjectedMemory[];
+}
+
+// Pinned memories don't count towards the limit.
+const MAX_MEMORIES = 20;
+const MEMORY_DUPLICATE_THRESHOLD = 0.9;
+
+const MEMORY_CATEGORY_LABELS: Record<MemoryCategory, string> = {
+    preference: "Preferência",
+    fact: "Fato",
+    project: "Projeto",
+    other: "Outro",
+};
+
+const createMemoryRecord = (text: string, fields: Partial<MemoryRecord> = {}): MemoryRecord => {
+    const now = Date.now();
+    return { id: createId(), text, category: 'other', createdAt: now, lastUsedAt: now, ...fields };
+};
+
+// Keeps every pinned memory and the MAX_MEMORIES most recently used others, in their current order.
+const evictMemories = (memories: MemoryRecord[]): MemoryRecord[] => {
+    const kept = new Set(memories
+        .filter(memory => !memory.pinned)
+        .sort((a, b) => b.lastUsedAt - a.lastUsedAt || b.createdAt - a.createdAt)
+        .slice(0, MAX_MEMORIES));
+    return memories.filter(memory => memory.pinned || kept.has(memory));
+};
+
+const getMemorySimilarity = (a: string, b: string): number =>
+    getDiffSimilarity(diffWords(foldText(a).replace(/[^\p{L}\p{N}\s]/gu, ''), foldText(b).replace(/[^\p{L}\p{N}\s]/gu, '')));
+
+const findSimilarMemory = <T extends { text: string },>(memories: T[], text: string): T | undefined =>
+    memories.find(memory => getMemorySimilarity(memory.text, text) >= MEMORY_DUPLICATE_THRESHOLD);
+
+// Groups memories that say nearly the same thing, each group in list order.
+const findDuplicateMemoryGroups = (memories: MemoryRecord[]): MemoryRecord[][] => {
+    const groups: MemoryRecord[][] = [];
+    for (const memory of memories) {
+        const group = groups.find(g => g.some(other => getMemorySimilarity(other.text, memory.text) >= MEMORY_DUPLICATE_THRESHOLD));
+        if (group) group.push(memory);
+        else groups.push([memory]);
+    }
+    return groups.filter(group => group.length > 1);
+};
+
+// The merged memory keeps the longest text, the earliest origin and the latest use.
+const mergeMemoryRecords = (group: MemoryRecord[]): MemoryRecord => {
+    const longest = group.reduce((best, memory) => memory.text.length > best.text.length ? memory : best);
+    const oldest = group.reduce((best, memory) => memory.createdAt < best.createdAt ? memory : best);
+    return {
+        ...longest,
+        createdAt: oldest.createdAt,
+        lastUsedAt: Math.max(...group.map(memory => memory.lastUsedAt)),
+        ...(oldest.conversationId && { conversationId: oldest.conversationId }),
+        ...(group.some(memory => memory.pinned) && { pinned: true }),
+    };
+};
+
+// A memory the agent proposed while review mode is on, waiting for the user to accept or reject it.
+interface MemoryProposal {
+    id: string;
+    text: string;
+    category: MemoryCategory;
+    conversationId?: string;
+    createdAt: number;
+}
+
+// Recent rejections go back into the memory prompt so the agent stops proposing the same kind of thing.
+interface MemoryRejection {
+    id: string;
+    text: string;
+    reason: string;
+    rejectedAt: number;
+}
+
+const MAX_MEMORY_REJECTIONS = 10;
+
+type SensitiveCategory = 'credentials' | 'health' | 'financial';
+
+// A term counts anywhere in a sentence that refers to the user ("the user is taking medication for anxiety",
+// "a senha do usuário"), unless a work or topic word comes first, as in "the user works on cancer research".
+// Matched against folded text, so accents don't matter. These memories are dropped even if the model ignores its instructions.
+const USER_REFERENCE = /\b(?:user['’]?s?|usuari[oa]s?|i|eu|my|meus?|minhas?|seus?|suas?)\b/;
+const SENSITIVE_TOPIC_GUARD = /\b(?:works?|working|worked|trabalh\w*|research\w*|pesquis\w*|stud(?:y|ies|ying|ied)|estud\w*|builds?|building|buil[td]|develop\w*|desenvolv\w*|projects?|projetos?|apps?|aplicativos?|startups?|company|companies|empresas?|clients?|clientes?|writes?|writing|wrote|escrev\w*|reads?|reading|learn\w*|aprend\w*|teach\w*|ensin\w*|interested|interessad[oa]s?|courses?|cursos?|managers?|gerenciador\w*)\b/;
+const SENSITIVE_MEMORY_TERMS: Record<SensitiveCategory, RegExp> = {
+    credentials: /\b(?:passwords?|passwd|senhas?|pin codes?|codigo pin|access tokens?|tokens? de acesso|api[ -]?keys?|chaves? de api|credenciais|credentials?|private keys?|chaves? privadas?)\b/g,
+    health: /\b(?:diagnos\w*|doencas?|diseases?|illness\w*|medications?|medicamentos?|remedios?|depress\w*|ansiedade|anxiety|cancer|chemotherap\w*|quimioterapia|hiv|aids|diabet\w*|gravida|pregnan\w*|terapia|therapy|psiquiatr\w*|psychiatr\w*|sintomas?|symptoms?|saude mental|mental health)\b/g,
+    financial: /\b(?:salary|salaries|salario\w*|income|renda|dividas?|debts?|emprestimos?|loans?|mortgage|hipoteca|credit cards?|cartao de credito|bank accounts?|conta bancaria|iban|cpf|ssn|social security|credit score|patrimonio|net worth)\b|\b(?:earns|makes|owes|ganha|deve|recebe)\s+(?:\S+\s+){0,2}(?:\$|r\$|€|£|\d)/g,
+};
+// Keys and card numbers are blocked wherever they appear.
+const SENSITIVE_MEMORY_VALUES: [SensitiveCategory, RegExp][] = [
+    ['credentials', /\b(?:sk|ghp|xox[bp])[-_][a-z0-9]{10,}/],
+    ['financial', /\b\d{4}[ -]?\d{4}[ -]?\d{4}[ -]?\d{4}\b/],
+];
+
+const SENSITIVE_CATEGORY_LABELS: Record<SensitiveCategory, string> = {
+    credentials: "credenciais",
+    health: "dados de saúde",
+    financial: "dados financeiros",
+};
+
+const detectSensitiveMemory = (text: string): SensitiveCategory | null => {
+    const folded = foldText(text);
+    const value = SENSITIVE_MEMORY_VALUES.find(([, pattern]) => pattern.test(folded));
+    if (value) return value[0];
+    for (const sentence of folded.split(/[.!?;\n]+/)) {
+        if (!USER_REFERENCE.test(sentence)) continue;
+        for (const category of Object.keys(SENSITIVE_MEMORY_TERMS) as SensitiveCategory[]) {
+            for (const match of sentence.matchAll(SENSITIVE_MEMORY_TERMS[category])) {
+                if (!SENSITIVE_TOPIC_GUARD.test(sentence.slice(0, match.index))) return category;
+            }
+        }
+    }
+    return null;
+};
+
+const buildMemoryPrompt = (userInput: string, modelResponse: string, rejections: MemoryRejection[]): string => [
+    `User Query: "${userInput}"\n\nAI Response: "${modelResponse}"`,
+    ...(rejections.length > 0 ? [`Previously rejected memories:\n${rejections.map(rejection => `- "${rejection.text}"${rejection.reason ? ` (reason: ${rejection.reason})` : ''}`).join('\n')}`] : []),
+].join('\n\n');
+
+const LOCAL_EMBEDDING_MODEL = 'local-hash';
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+const LOCAL_EMBEDDING_STOPWORDS = new Set(['user', 'usuario', 'that', 'this', 'with', 'from', 'have', 'what', 'para', 'como', 'esta', 'isso', 'sobre']);
+
+// Similarity thresholds differ a lot between model embeddings and the local word hashing.
+const DEFAULT_RETRIEVAL_THRESHOLDS: Record<EmbeddingBackend, number> = { provider: 0.6, local: 0.15 };
+const DEFAULT_MEMORY_RETRIEVAL: MemoryRetrievalSettings = { backend: 'provider', topK: 5, threshold: DEFAULT_RETRIEVAL_THRESHOLDS.provider };
+
+// Hashes word prefixes into a fixed-size vector: no model or network needed, and memories that share
+// vocabulary with the question still rank first.
+const embedLocally = (text: string): number[] => {
+    const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of foldText(text).match(/[\p{L}\p{N}]{4,}/gu) ?? []) {
+        if (LOCAL_EMBEDDING_STOPWORDS.has(word)) continue;
+        let hash = 0;
+        for (const char of word.slice(0, 6)) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+        vector[Math.abs(hash) % LOCAL_EMBEDDING_DIMENSIONS]++;
+    }
+    return vector;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// Pinned memories always go in; the others compete for the top-k slots above the threshold.
+const selectMemories = (memories: MemoryRecord[], scores: Map<string, number>, settings: MemoryRetrievalSettings): InjectedMemory[] => {
+    const toInjected = (memory: MemoryRecord, reason: InjectedMemory['reason']): InjectedMemory =>
+        ({ id: memory.id, text: memory.text, category: memory.category, score: scores.get(memory.id) ?? 0, reason });
+    const relevant = memories
+        .filter(memory => !memory.pinned && (scores.get(memory.id) ?? 0) >= settings.threshold)
+        .sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0))
+        .slice(0, settings.topK);
+    return [
+        ...memories.filter(memory => memory.pinned).map(memory => toInjected(memory, 'pinned')),
+        ...relevant.map(memory => toInjected(memory, 'relevant')),
+    ];
+};
+
+const buildMemoryContext = (memories: InjectedMemory[]): string => memories.length > 0
+    ? `--- Contexto da Memória de Longo Prazo ---\n- ${memories.map(memory => memory.text).join('\n- ')}\n--- Fim do Contexto ---\n\n`
+    : '';
+
+// --- Settings Profiles ---
+// Provider settings stay out of profiles on purpose: they hold API keys, and profiles are meant to be exported and shared.
+interface ProfileSettings {
+    modelName: ModelName;
+    researchMode: ResearchMode;
+    generationDepth: GenerationDepth;
+    activePipelineId: string | null;
+    initialTemps: number[];
+    refinementTemp: number;
+    synthesizerTemp: number;
+    isSelfCorrectionEnabled: boolean;
+    isCodeInterpreterEnabled: boolean;
+    isLongTermMemoryEnabled: boolean;
+    personaAssignments: PersonaAssignments;
+    modelAssignments: ModelAssignments;
+    researchSettings: ResearchSettings;
+    retrySettings: RetrySettings;
+    memoryRetrieval: MemoryRetrievalSettings;
+}
+
+interface SettingsProfile {
+    id: string;
+    name: string;
+    settings: ProfileSettings;
+    updatedAt: number;
+}
+
+const PROFILE_EXPORT_FORMAT = 'gemini-heavy-profiles';
+const PROFILE_EXPORT_VERSION = 1;
+
+const RESEARCH_MODES: ResearchMode[] = ['offline', 'web', 'deep'];
+const GENERATION_DEPTHS: GenerationDepth[] = ['fast', 'balanced', 'deep'];
+
+const PROVIDER_KINDS: ProviderKind[] = ['gemini', 'openai', 'mock'];
+const SIDEBAR_GROUPINGS: SidebarGrouping[] = ['none', 'folder', 'tag'];
+
+// Shape checks for settings read back from storage or from an import file.
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isTemperature = (value: unknown): value is number => isFiniteNumber(value) && value >= 0 && value <= 1;
+const isModelName = (value: unknown): value is ModelName => isString(value) && Object.hasOwn(MODEL_LABELS, value);
+const isModelAssignment = (value: unknown): value is ModelName | '' => value === '' || isModelName(value);
+const isListOf = <T,>(value: unknown, isItem: (item: unknown) => item is T, maxLength = Infinity): value is T[] =>
+    Array.isArray(value) && value.length <= maxLength && value.every(isItem);
+
+// Out-of-range numbers are pulled back to what the settings sliders allow.
+const clampSetting = (value: unknown, min: number, max: number, fallback: number, isInteger = true): number =>
+    isFiniteNumber(value) ? Math.min(max, Math.max(min, isInteger ? Math.round(value) : value)) : fallback;
+
+const settingsPicker = <T extends object>(source: Record<string, unknown>, base: T) =>
+    <K extends keyof T & string>(key: K, isValid: (value: unknown) => boolean): T[K] =>
+        isValid(source[key]) ? source[key] as T[K] : base[key];
+
+const normalizePersonaAssignments = (value: unknown, base: PersonaAssignments): PersonaAssignments => {
+    const pick = settingsPicker(isRecord(value) ? value : {}, base);
+    return {
+        initial: pick('initial', item => isListOf(item, isString, MAX_STAGE_AGENTS) && item.length > 0),
+        refine: pick('refine', isString),
+        synthesize: pick('synthesize', isString),
+        critic: pick('critic', isString),
+    };
+};
+
+const normalizeModelAssignments = (value: unknown, base: ModelAssignments): ModelAssignments => {
+    const pick = settingsPicker(isRecord(value) ? value : {}, base);
+    return {
+        initial: pick('initial', item => isListOf(item, isModelAssignment, MAX_STAGE_AGENTS) && item.length > 0),
+        refine: pick('refine', isModelAssignment),
+        synthesize: pick('synthesize', isModelAssignment),
+        critic: pick('critic', isModelAssignment),
+    };
+};
+
+const normalizeResearchSettings = (value: unknown, base: ResearchSettings): ResearchSettings => {
+    const source = isRecord(value) ? value : {};
+    return {
+        maxQueries: clampSetting(source.maxQueries, 1, 8, base.maxQueries),
+        maxHops: clampSetting(source.maxHops, 1, 4, base.maxHops),
+    };
+};
+
+const normalizeRetrySettings = (value: unknown, base: RetrySettings): RetrySettings => {
+    const source = isRecord(value) ? value : {};
+    return {
+        maxRetries: clampSetting(source.maxRetries, 0, 5, base.maxRetries),
+        minSuccessfulAgents: clampSetting(source.minSuccessfulAgents, 1, MAX_STAGE_AGENTS, base.minSuccessfulAgents),
+    };
+};
+
+const normalizeMemoryRetrieval = (value: unknown, base: MemoryRetrievalSettings): MemoryRetrievalSettings => {
+    const source = isRecord(value) ? value : {};
+    return {
+        backend: isString(source.backend) && Object.hasOwn(DEFAULT_RETRIEVAL_THRESHOLDS, source.backend) ? source.backend as EmbeddingBackend : base.backend,
+        topK: clampSetting(source.topK, 1, 10, base.topK),
+        threshold: clampSetting(source.threshold, 0, 1, base.threshold, false),
+    };
+};
+
+const isPipelineStage = (value: unknown): value is PipelineStage =>
+    isRecord(value) && isString(value.id) && isString(value.role) && Object.hasOwn(STAGE_ROLE_DEFAULTS, value.role)
+    && isString(value.label) && isString(value.prompt) && isModelName(value.model) && isTemperature(value.temperature)
+    && Number.isInteger(value.count) && isListOf(value.inputs, isString)
+    && (value.agentTemperatures === undefined || isListOf(value.agentTemperatures, isTemperature, MAX_STAGE_AGENTS))
+    && (value.personaId === undefined || isString(value.personaId))
+    && (value.agentPersonaIds === undefined || isListOf(value.agentPersonaIds, isString, MAX_STAGE_AGENTS))
+    && (value.agentModels === undefined || isListOf(value.agentModels, isModelAssignment, MAX_STAGE_AGENTS));
+
+// Pipelines that no longer pass validation are dropped rather than left to fail mid-run.
+const normalizePipelines = (value: unknown): PipelineDefinition[] =>
+    (Array.isArray(value) ? value : []).flatMap(entry =>
+        isRecord(entry) && isString(entry.id) && isString(entry.name) && isListOf(entry.stages, isPipelineStage)
+            && validatePipeline(entry as unknown as PipelineDefinition) === null
+            ? [{ id: entry.id, name: entry.name, stages: entry.stages }]
+            : []);
+
+const normalizePersonas = (value: unknown): Persona[] =>
+    (Array.isArray(value) ? value : []).flatMap(entry =>
+        isRecord(entry) && isString(entry.id) && isString(entry.name) && isString(entry.instruction)
+            && isString(entry.role) && Object.hasOwn(STAGE_ROLE_DEFAULTS, entry.role)
+            ? [{ id: entry.id, name: entry.name, role: entry.role as StageRole, instruction: entry.instruction }]
+            : []);
+
+const normalizePriceTable = (value: unknown, base: PriceTable): PriceTable => {
+    const source = isRecord(value) ? value : {};
+    const isPrice = (price: unknown) => isFiniteNumber(price) && price >= 0;
+    return Object.fromEntries(MODEL_NAMES.map(model => {
+        const entry = source[model];
+        return [model, isRecord(entry) && isPrice(entry.input) && isPrice(entry.output) ? { input: entry.input, output: entry.output } : base[model]];
+    })) as PriceTable;
+};
+
+const normalizeUsageLedger = (value: unknown): UsageLedger => {
+    const isUsage = (usage: unknown): usage is TokenUsage => isRecord(usage)
+        && isFiniteNumber(usage.promptTokens) && isFiniteNumber(usage.outputTokens) && isFiniteNumber(usage.thinkingTokens);
+    return Object.fromEntries(Object.entries(isRecord(value) ? value : {}).flatMap(([day, models]) =>
+        isRecord(models) && Object.values(models).every(isUsage) ? [[day, models as Record<string, TokenUsage>]] : []));
+};
+
+const normalizeProviderSettings = (value: unknown, base: ProviderSettings): ProviderSettings => {
+    const source = isRecord(value) ? value : {};
+    const pick = settingsPicker(source, base);
+    const models = isRecord(source.openAIModels) ? source.openAIModels : {};
+    const isMockEntry = (entry: unknown): entry is MockScriptEntry => isRecord(entry) && isString(entry.match) && isString(entry.response);
+    return {
+        kind: pick('kind', kind => PROVIDER_KINDS.includes(kind as ProviderKind)),
+        openAIBaseUrl: pick('openAIBaseUrl', isString),
+        openAIApiKey: pick('openAIApiKey', isString),
+        openAIModels: Object.fromEntries(MODEL_NAMES.map(model => {
+            const name = models[model];
+            return [model, isString(name) ? name : base.openAIModels[model]];
+        })) as Record<ModelName, string>,
+        openAIEmbeddingModel: pick('openAIEmbeddingModel', isString),
+        mockScript: pick('mockScript', script => isListOf(script, isMockEntry)),
+    };
+};
+
+// Rebuilds the settings in a fixed key order, taking anything missing or malformed from `base`,
+// so a hand-edited or older profile still applies cleanly and profiles can be compared as JSON.
+const normalizeProfileSettings = (settings: unknown, base: ProfileSettings): ProfileSettings => {
+    const source = isRecord(settings) ? settings : {};
+    const pick = settingsPicker(source, base);
+    const isBoolean = (value: unknown) => typeof value === 'boolean';
+    return {
+        modelName: pick('modelName', isModelName),
+        researchMode: pick('researchMode', value => RESEARCH_MODES.includes(value as ResearchMode)),
+        generationDepth: pick('generationDepth', value => GENERATION_DEPTHS.includes(value as GenerationDepth)),
+        activePipelineId: pick('activePipelineId', value => value === null || isString(value)),
+        initialTemps: pick('initialTemps', value => isListOf(value, isTemperature, MAX_STAGE_AGENTS) && value.length > 0),
+        refinementTemp: pick('refinementTemp', isTemperature),
+        synthesizerTemp: pick('synthesizerTemp', isTemperature),
+        isSelfCorrectionEnabled: pick('isSelfCorrectionEnabled', isBoolean),
+        isCodeInterpreterEnabled: pick('isCodeInterpreterEnabled', isBoolean),
+        isLongTermMemoryEnabled: pick('isLongTermMemoryEnabled', isBoolean),
+        personaAssignments: normalizePersonaAssignments(source.personaAssignments, base.personaAssignments),
+        modelAssignments: normalizeModelAssignments(source.modelAssignments, base.modelAssignments),
+        researchSettings: normalizeResearchSettings(source.researchSettings, base.researchSettings),
+        retrySettings: normalizeRetrySettings(source.retrySettings, base.retrySettings),
+        memoryRetrieval: normalizeMemoryRetrieval(source.memoryRetrieval, base.memoryRetrieval),
+    };
+};
+
+// The part of a profile that each conversation keeps for itself.
+type ConversationSettings = Pick<ProfileSettings, 'modelName' | 'researchMode' | 'generationDepth' | 'activePipelineId' | 'initialTemps' | 'refinementTemp' | 'synthesizerTemp'>;
+
+const toConversationSettings = ({ modelName, researchMode, generationDepth, activePipelineId, initialTemps, refinementTemp, synthesizerTemp }: ConversationSettings): ConversationSettings =>
+    ({ modelName, researchMode, generationDepth, activePipelineId, initialTemps, refinementTemp, synthesizerTemp });
+
+const withConversationInstructions = (systemInstruction: string | undefined, instructions: string | undefined): string | undefined => {
+    const extra = instructions?.trim();
+    if (!extra) return systemInstruction;
+    const block = `--- Instruções desta conversa ---\n${extra}\n--- Fim das instruções ---`;
+    return systemInstruction ? `${systemInstruction}\n\n${block}` : block;
+};
+
+const isSameSettings = <T extends ProfileSettings | ConversationSettings>(a: T, b: T): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const serializeProfiles = (profiles: SettingsProfile[]): string =>
+    JSON.stringify({ format: PROFILE_EXPORT_FORMAT, version: PROFILE_EXPORT_VERSION, exportedAt: new Date().toISOString(), profiles }, null, 2);
+
+// Accepts an export file, a bare list or a single profile. Ids that clash with existing profiles are replaced.
+const parseProfileFile = (text: string, existing: SettingsProfile[], base: ProfileSettings): SettingsProfile[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("O arquivo não é um JSON válido.");
+    }
+    const entries: unknown[] = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.profiles) ? parsed.profiles : [parsed];
+    const takenIds = new Set(existing.map(p => p.id));
+    return entries.map(entry => {
+        if (!isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim() || !isRecord(entry.settings)) {
+            throw new Error("Perfil inválido. Cada item precisa de name e settings.");
+        }
+        const id = typeof entry.id === 'string' && !takenIds.has(entry.id) ? entry.id : createId();
+        takenIds.add(id);
+        return { id, name: entry.name.trim(), settings: normalizeProfileSettings(entry.settings, base), updatedAt: Date.now() };
+    });
+};
+
+// Stored profiles go through the same checks as imported ones, but keep their ids and dates.
+const restoreProfiles = (value: unknown, base: ProfileSettings): SettingsProfile[] =>
+    (Array.isArray(value) ? value : []).flatMap(entry => isRecord(entry) && typeof entry.id === 'string' && typeof entry.name === 'string' && isRecord(entry.settings)
+        ? [{ id: entry.id, name: entry.name, settings: normalizeProfileSettings(entry.settings, base), updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : 0 }]
+        : []);
+
+const formatTimer = (milliseconds: number): string => {
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const minutes = String(Math.floor(totalSeconds / 60)).padStart(2, '0');
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return `${minutes}:${seconds}`;
+};
+
+const buildCancelledText = (stageName: string, partialText: string): string => {
+    const note = `*Geração cancelada pelo usuário durante a etapa "${stageName.replace(/\.{3}$/, '')}".*`;
+    return partialText ? `${note}\n\n---\n\n${partialText}` : note;
+};
+
+const LoadingIndicator: FC<{ tasks: LoadingTask[], timer: number, activeTaskName?: string }> = ({ tasks, timer, activeTaskName }) => {
+    const completedCount = tasks.filter(t => t.status === 'completed').length;
+    const progressPercentage = tasks.length > 0 ? (completedCount / (tasks.length - 1)) * 100 : 0;
+
+    return (
+        <div className="message-wrapper model-wrapper">
+             <div className="avatar model-avatar">
+                <IconBot />
+            </div>
+            <div className="message-content-wrapper">
+                <div className="message model loading-animation">
+                    <div className="loading-header">
+                        <div className="loading-status-container">
+                            <div className="loading-status">Gerando resposta...</div>
+                            {activeTaskName && <div className="loading-sub-status">{activeTaskName}</div>}
+                        </div>
+                        <div className="timer-display">{formatTimer(timer)}</div>
+                    </div>
+                    <div className="loading-task-list-wrapper">
+                        <div className="loading-progress-bar-container">
+                            <div className="loading-progress-bar" style={{ height: `${progressPercentage}%` }}></div>
+                        </div>
+                        <div className="loading-task-list">
+                            {tasks.map((task, index) => (
+                                <div
+                                    key={index}
+                                    className={`loading-task-item ${task.status}`}
+                                    style={{ animationDelay: `${index * 100}ms` }}
+                                >
+                                    <div className="task-status-icon">
+                                        {task.status === 'pending' && <div className="task-icon">{task.icon}</div>}
+                                        {task.status === 'active' && <div className="task-icon processing-icon"><IconLoader /></div>}
+                                        {task.status === 'completed' && <div className="task-icon completed-icon"><IconCheck /></div>}
+                                    </div>
+                                    <span className="task-name">{task.name}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const RefinePanel: FC<{
+    data: RefineData | null;
+    isRefining: boolean;
+    error: string | null;
+    onApply: (text: string) => void;
+    onClose: () => void;
+}> = ({ data, isRefining, error, onApply, onClose }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [editedText, setEditedText] = useState("");
+    const [copyStatus, setCopyStatus] = useState("Copiar");
+    const editRef = useRef<HTMLTextAreaElement>(null);
+
+    useEffect(() => {
+        if (data && !isEditing) {
+            setEditedText(data.refined);
+        }
+    }, [data, isEditing]);
+
+    useEffect(() => {
+        if (isEditing && editRef.current) {
+            if (document.activeElement !== editRef.current) {
+                editRef.current.focus();
+            }
+            editRef.current.style.height = 'auto';
+            editRef.current.style.height = `${editRef.current.scrollHeight}px`;
+        }
+    }, [isEditing, editedText]);
+
+    const handleCopy = async () => {
+        if (!data) return;
+        try {
+            await navigator.clipboard.writeText(isEditing ? editedText : data.refined);
+            setCopyStatus('Copiado!');
+            setTimeout(() => setCopyStatus('Copiar'), 2000);
+        } catch (err) {
+            setCopyStatus('Falhou!');
+            setTimeout(() => setCopyStatus('Copiar'), 2000);
+        }
+    };
+
+    const handleApply = () => {
+        if (!data) return;
+        onApply(isEditing ? editedText : data.refined);
+    };
+
+    return (
+        <div className="refine-panel">
+            <div className="refine-panel-header">
+                <h3>Refinar Pergunta</h3>
+                <button type="button" className="settings-close-button" onClick={onClose} aria-label="Fechar painel de refinar">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                </button>
+            </div>
+            <div className="refine-panel-content">
+                {isRefining && <div className="refine-state-message"><IconLoader className="processing-icon"/> Refinando sua pergunta...</div>}
+                {error && <div className="refine-state-message error">{error}</div>}
+                {data && (
+                    <>
+                        <div className="refine-columns">
+                            <div className="refine-column">
+                               <h4>Original</h4>
+                                <pre>{data.original}</pre>
+                            </div>
+                            <div className="refine-column">
+                                <h4>Refinada</h4>
+                                {isEditing ? (
+                                    <textarea 
+                                        ref={editRef}
+                                        value={editedText} 
+                                        onChange={(e) => setEditedText(e.target.value)}
+                                        className="refine-edit-textarea"
+                                    />
+                                ) : (
+                                    <pre>{data.refined}</pre>
+                                )}
+                            </div>
+                        </div>
+                        <div className="refine-rationale">
+                            <h5>Nota do Refinador</h5>
+                            <p>{data.rationale}</p>
+                        </div>
+                        {data.questions && data.questions.length > 0 && (
+                            <div className="refine-questions">
+                                <h5>Perguntas para Esclarecer</h5>
+                                <ul>
+                                    {data.questions.map((q, i) => <li key={i}>{q}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        <div className="refine-actions">
+                            <button className="refine-action-button primary" onClick={handleApply}>Aplicar</button>
+                            <button className="refine-action-button" onClick={() => setIsEditing(!isEditing)}>{isEditing ? "Cancelar" : "Editar"}</button>
+                            <button className="refine-action-button" onClick={handleCopy}>{copyStatus}</button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+interface NotificationAction {
+    label: string;
+    onClick: () => void;
+}
+
+const Notification: FC<{
+    message: string;
+    type: 'success' | 'error';
+    action?: NotificationAction;
+    onDismiss: () => void;
+}> = ({ message, type, action, onDismiss }) => {
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            onDismiss();
+        }, 5000);
+        return () => clearTimeout(timer);
+    }, [onDismiss]);
+
+    const Icon = type === 'success' ? IconCheck : IconAlertTriangle;
+
+    return (
+        <div className={`notification notification--${type}`}>
+            <Icon />
+            <span>{message}</span>
+            {action && (
+                <button onClick={() => { action.onClick(); onDismiss(); }} className="notification-action">{action.label}</button>
+            )}
+            <button onClick={onDismiss} className="notification-dismiss" aria-label="Dispensar">
+               <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+            </button>
+        </div>
+    );
+};
+
+const MemoryManagementModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    memories: MemoryRecord[];
+    inbox: MemoryProposal[];
+    rejections: MemoryRejection[];
+    conversations: Conversation[];
+    onAcceptProposal: (id: string, text: string, category: MemoryCategory) => void;
+    onRejectProposal: (id: string, reason: string) => void;
+    onForgetRejection: (id: string) => void;
+    onAdd: (text: string, category: MemoryCategory) => void;
+    onUpdate: (id: string, changes: Partial<MemoryRecord>) => void;
+    onDelete: (id: string) => void;
+    onMerge: (ids: string[]) => void;
+    onClearAll: () => void;
+}> = ({ isOpen, onClose, memories, inbox, rejections, conversations, onAcceptProposal, onRejectProposal, onForgetRejection, onAdd, onUpdate, onDelete, onMerge, onClearAll }) => {
+    const [newMemory, setNewMemory] = useState('');
+    const [newCategory, setNewCategory] = useState<MemoryCategory>('preference');
+    const [editing, setEditing] = useState<{ id: string; text: string; category: MemoryCategory } | null>(null);
+    const [rejecting, setRejecting] = useState<{ id: string; reason: string } | null>(null);
+    const duplicateGroups = useMemo(() => isOpen ? findDuplicateMemoryGroups(memories) : [], [isOpen, memories]);
+
+    if (!isOpen) return null;
+
+    const pinnedCount = memories.filter(memory => memory.pinned).length;
+
+    const handleAdd = (e: FormEvent) => {
+        e.preventDefault();
+        if (newMemory.trim()) {
+            onAdd(newMemory.trim(), newCategory);
+            setNewMemory('');
+        }
+    };
+
+    const handleSaveEdit = () => {
+        if (!editing || !editing.text.trim()) return;
+        onUpdate(editing.id, { text: editing.text.trim(), category: editing.category });
+        setEditing(null);
+    };
+
+    const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('pt-BR');
+    const getConversationTitle = (id: string) => conversations.find(c => c.id === id)?.title ?? 'conversa excluída';
+
+    const categorySelect = (value: MemoryCategory, onChange: (category: MemoryCategory) => void) => (
+        <select className="settings-select memory-category-select" value={value} onChange={(e) => onChange(e.target.value as MemoryCategory)} aria-label="Categoria">
+            {(Object.keys(MEMORY_CATEGORY_LABELS) as MemoryCategory[]).map(category => (
+                <option key={category} value={category}>{MEMORY_CATEGORY_LABELS[category]}</option>
+            ))}
+        </select>
+    );
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>Gerenciar Memória</h3>
+                    <button type="button" className="settings-close-button" onClick={onClose} aria-label="Fechar">
+                         <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                    </button>
+                </div>
+                <div className="modal-body">
+                    {inbox.length > 0 && (
+                        <div className="memory-inbox">
+                            <h4 className="memory-section-title">Para Revisar ({inbox.length})</h4>
+                            <ul className="memory-list">
+                                {inbox.map(proposal => (
+                                    <li key={proposal.id} className="memory-item memory-item--editing">
+                                        {editing?.id === proposal.id ? (
+                                            <textarea
+                                                className="add-memory-input"
+                                                value={editing.text}
+                                                onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                                                aria-label="Editar memória proposta"
+                                                rows={2}
+                                                autoFocus
+                                            />
+                                        ) : (
+                                            <span>{proposal.text}</span>
+                                        )}
+                                        <div className="memory-item-meta">
+                                            <span className="memory-category">{MEMORY_CATEGORY_LABELS[editing?.id === proposal.id ? editing.category : proposal.category]}</span>
+                                            <span>Proposta em {formatDate(proposal.createdAt)}</span>
+                                            {proposal.conversationId && <span>De “{getConversationTitle(proposal.conversationId)}”</span>}
+                                        </div>
+                                        {rejecting?.id === proposal.id ? (
+                                            <div className="memory-edit-actions">
+                                                <input
+                                                    type="text"
+                                                    className="settings-text-input memory-reject-reason"
+                                                    value={rejecting.reason}
+                                                    onChange={(e) => setRejecting({ ...rejecting, reason: e.target.value })}
+                                                    placeholder="Motivo (opcional), ex.: isso não é verdade"
+                                                    aria-label="Motivo da rejeição"
+                                                    autoFocus
+                                                />
+                                                <button className="refine-action-button" onClick={() => setRejecting(null)}>Cancelar</button>
+                                                <button className="refine-action-button danger" onClick={() => { onRejectProposal(proposal.id, rejecting.reason.trim()); setRejecting(null); }}>Rejeitar</button>
+                                            </div>
+                                        ) : editing?.id === proposal.id ? (
+                                            <div className="memory-edit-actions">
+                                                {categorySelect(editing.category, category => setEditing({ ...editing, category }))}
+                                                <button className="refine-action-button" onClick={() => setEditing(null)}>Cancelar</button>
+                                                <button
+                                                    className="refine-action-button primary"
+                                                    disabled={!editing.text.trim()}
+                                                    onClick={() => { onAcceptProposal(proposal.id, editing.text.trim(), editing.category); setEditing(null); }}
+                                                >
+                                                    Salvar e aceitar
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div className="memory-edit-actions">
+                                                <button className="refine-action-button" onClick={() => setRejecting({ id: proposal.id, reason: '' })}>Rejeitar</button>
+                                                <button className="refine-action-button" onClick={() => setEditing({ id: proposal.id, text: proposal.text, category: proposal.category })}>Editar</button>
+                                                <button className="refine-action-button primary" onClick={() => onAcceptProposal(proposal.id, proposal.text, proposal.category)}>Aceitar</button>
+                                            </div>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                     <form onSubmit={handleAdd} className="add-memory-form">
+                        <textarea
+                            value={newMemory}
+                            onChange={(e) => setNewMemory(e.target.value)}
+                            placeholder="Adicionar nova memória para o agente..."
+                            className="add-memory-input"
+                            aria-label="Nova memória"
+                            rows={2}
+                        />
+                        {categorySelect(newCategory, setNewCategory)}
+                        <button type="submit" className="add-memory-button" disabled={!newMemory.trim()}>
+                            <IconPlus /> Adicionar
+                        </button>
+                    </form>
+                    <p className="memory-capacity">
+                        {memories.length - pinnedCount}/{MAX_MEMORIES} memórias · as fixadas não contam para o limite. Ao passar do limite, as usadas há mais tempo são esquecidas.
+                    </p>
+                    {duplicateGroups.length > 0 && (
+                        <div className="memory-duplicates">
+                            <strong>Memórias parecidas</strong>
+                            {duplicateGroups.map(group => (
+                                <div key={group[0].id} className="memory-duplicate-group">
+                                    <ul>
+                                        {group.map(memory => <li key={memory.id}>{memory.text}</li>)}
+                                    </ul>
+                                    <button className="refine-action-button" onClick={() => onMerge(group.map(memory => memory.id))}>Mesclar</button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {memories.length === 0 ? (
+                        <p className="empty-memories-message">Nenhuma memória armazenada ainda.</p>
+                    ) : (
+                        <ul className="memory-list">
+                            {memories.map(memory => editing?.id === memory.id ? (
+                                <li key={memory.id} className="memory-item memory-item--editing">
+                                    <textarea
+                                        className="add-memory-input"
+                                        value={editing.text}
+                                        onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                                        aria-label="Editar memória"
+                                        rows={2}
+                                        autoFocus
+                                    />
+                                    <div className="memory-edit-actions">
+                                        {categorySelect(editing.category, category => setEditing({ ...editing, category }))}
+                                        <button className="refine-action-button" onClick={() => setEditing(null)}>Cancelar</button>
+                                        <button className="refine-action-button primary" onClick={handleSaveEdit} disabled={!editing.text.trim()}>Salvar</button>
+                                    </div>
+                                </li>
+                            ) : (
+                                <li key={memory.id} className={`memory-item ${memory.pinned ? 'memory-item--pinned' : ''}`}>
+                                    <div className="memory-item-content">
+                                        <span>{memory.text}</span>
+                                        <div className="memory-item-meta">
+                                            <span className="memory-category">{MEMORY_CATEGORY_LABELS[memory.category]}</span>
+                                            <span>Criada em {formatDate(memory.createdAt)}</span>
+                                            <span>Usada em {formatDate(memory.lastUsedAt)}</span>
+                                            {memory.conversationId && (
+                                                <span>De “{getConversationTitle(memory.conversationId)}”</span>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="memory-item-actions">
+                                        <button
+                                            onClick={() => onUpdate(memory.id, { pinned: !memory.pinned })}
+                                            className={`delete-memory-button memory-pin-button ${memory.pinned ? 'active' : ''}`}
+                                            aria-label={memory.pinned ? "Desafixar memória" : "Fixar memória"}
+                                            aria-pressed={!!memory.pinned}
+                                        >
+                                            <IconPin />
+                                        </button>
+                                        <button onClick={() => setEditing({ id: memory.id, text: memory.text, category: memory.category })} className="delete-memory-button memory-edit-button" aria-label="Editar memória">
+                                            <IconEdit />
+                                        </button>
+                                        <button onClick={() => onDelete(memory.id)} className="delete-memory-button" aria-label="Deletar memória">
+                                            <IconTrash />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {rejections.length > 0 && (
+                        <details className="memory-rejections">
+                            <summary>Rejeitadas recentemente ({rejections.length}) · orientam as próximas propostas</summary>
+                            <ul className="memory-list">
+                                {rejections.map(rejection => (
+                                    <li key={rejection.id} className="memory-item">
+                                        <div className="memory-item-content">
+                                            <span>{rejection.text}</span>
+                                            <div className="memory-item-meta">
+                                                <span>Rejeitada em {formatDate(rejection.rejectedAt)}</span>
+                                                {rejection.reason && <span>Motivo: {rejection.reason}</span>}
+                                            </div>
+                                        </div>
+                                        <button onClick={() => onForgetRejection(rejection.id)} className="delete-memory-button" aria-label="Esquecer rejeição">
+                                            <IconTrash />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+                </div>
+                <div className="modal-footer">
+                    <button 
+                        className="clear-all-memories-button" 
+                        onClick={onClearAll}
+                        disabled={memories.length === pinnedCount}
+                    >
+                        {pinnedCount > 0 ? "Limpar Memórias Não Fixadas" : "Limpar Toda a Memória"}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ProactiveSuggestions: FC<{
+    suggestions: string[];
+    onSelect: (suggestion: string) => void;
+}> = ({ suggestions, onSelect }) => {
+    if (suggestions.length === 0) return null;
+    return (
+        <div className="proactive-suggestions-container">
+            {suggestions.map((suggestion, index) => (
+                <button key={index} className="proactive-suggestion-button" onClick={() => onSelect(suggestion)}>
+                    <IconWand />
+                    <span>{suggestion}</span>
+                </button>
+            ))}
+        </div>
+    );
+};
+
+const AttachmentDisplay: FC<{ files: File[] }> = ({ files }) => {
+    const [previews, setPreviews] = useState<{[key: string]: string}>({});
+
+    useEffect(() => {
+        const newPreviews: {[key: string]: string} = {};
+        let isMounted = true;
+
+        files.forEach(file => {
+            if (file.type.startsWith('image/')) {
+                const reader = new FileReader();
+                reader.onloadend = () => {
+                    if (isMounted) {
+                        newPreviews[file.name] = reader.result as string;
+                        setPreviews(p => ({...p, ...newPreviews}));
+                    }
+                };
+                reader.readAsDataURL(file);
+            }
+        });
+        
+        return () => { isMounted = false; };
+    }, [files]);
+
+    return (
+        <div className="attachment-display-grid">
+            {files.map((file, i) => (
+                <div key={i} className="attachment-display-item">
+                    {previews[file.name] ? (
+                        <img src={previews[file.name]} alt={file.name} className="attachment-image-preview" />
+                    ) : (
+                        <div className="attachment-file-icon">{getFileTypeIcon(file.type)}</div>
+                    )}
+                    <div className="attachment-file-info">
+                        <span className="attachment-filename">{file.name}</span>
+                        <span className="attachment-filesize">{formatFileSize(file.size)}</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const CodeExecutionBlock: FC<{ output: ToolOutput }> = ({ output }) => {
+    const [isCodeVisible, setIsCodeVisible] = useState(false);
+
+    const renderOutput = (part: Part) => {
+        if ('text' in part) {
+            return <pre className="code-exec-output-text">{part.text}</pre>;
+        }
+        if ('inlineData' in part && part.inlineData.mimeType.startsWith('image/')) {
+            const imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            return <img src={imageUrl} alt="Resultado do código" className="code-exec-output-image" />;
+        }
+        return <pre className="code-exec-output-text">Formato de saída não suportado.</pre>;
+    };
+
+    return (
+        <div className="code-exec-block">
+            <div className="code-exec-header">
+                <IconTerminalSquare />
+                <span>Interpretador de Código Python</span>
+                <button onClick={() => setIsCodeVisible(!isCodeVisible)}>
+                    {isCodeVisible ? 'Ocultar código' : 'Mostrar código'}
+                </button>
+            </div>
+            {isCodeVisible && (
+                 <div className="code-exec-input">
+                    <CodeBlock>{output.code}</CodeBlock>
+                 </div>
+            )}
+            <div className="code-exec-output">
+                <div className="code-exec-output-header">Saída</div>
+                {output.result.map((part, index) => <div key={index}>{renderOutput(part)}</div>)}
+            </div>
+        </div>
+    );
+};
+
+// Bars are placed on a shared time axis so parallel agents line up.
+const TraceTimeline: FC<{ trace: TraceEntry[] }> = ({ trace }) => {
+    const totalMs = Math.max(1, ...trace.map(entry => entry.startedAt + entry.latencyMs));
+    return (
+        <div className="trace-timeline">
+            {trace.map((entry, i) => (
+                <details key={i} className={`trace-entry ${entry.error ? 'trace-entry--failed' : ''}`}>
+                    <summary>
+                        <span className="trace-entry-label">{entry.label}</span>
+                        <span className="trace-entry-track">
+                            <span className="trace-entry-bar" style={{ left: `${(entry.startedAt / totalMs) * 100}%`, width: `${Math.max(0.5, (entry.latencyMs / totalMs) * 100)}%` }} />
+                        </span>
+                        <span className="trace-entry-latency">{formatLatency(entry.latencyMs)}</span>
+                    </summary>
+                    <div className="trace-entry-body">
+                        <div className="trace-entry-meta">
+                            <span>{MODEL_LABELS[entry.model as ModelName] ?? entry.model}</span>
+                            {entry.temperature !== undefined && <span>Temperatura {entry.temperature.toFixed(1)}</span>}
+                            {entry.tools && entry.tools.length > 0 && <span>Ferramentas: {entry.tools.join(', ')}</span>}
+                            <span>Início +{formatLatency(entry.startedAt)}</span>
+                            <span>{entry.attempts} {entry.attempts === 1 ? 'tentativa' : 'tentativas'}</span>
+                            {entry.streamed && <span>Streaming</span>}
+                            {entry.finishReason && <span>Fim: {entry.finishReason}</span>}
+                        </div>
+                        {entry.systemInstruction && (
+                            <>
+                                <div className="trace-entry-heading">Instrução de sistema</div>
+                                <pre className="trace-entry-text">{entry.systemInstruction}</pre>
+                            </>
+                        )}
+                        <div className="trace-entry-heading">Entrada</div>
+                        <pre className="trace-entry-text">{entry.input}</pre>
+                        <div className="trace-entry-heading">{entry.error ? 'Erro' : 'Saída'}</div>
+                        <pre className="trace-entry-text">{entry.error ?? entry.output}</pre>
+                    </div>
+                </details>
+            ))}
+        </div>
+    );
+};
+
+const DiffView: FC<{ segments: DiffSegment[]; layout: 'inline' | 'split' }> = ({ segments, layout }) => {
+    const renderSide = (hidden: DiffOp) => segments
+        .filter(segment => segment.op !== hidden)
+        .map((segment, i) => segment.op === 'equal'
+            ? <span key={i}>{segment.text}</span>
+            : <span key={i} className={`diff-segment diff-segment--${segment.op}`}>{segment.text}</span>);
+    return layout === 'inline' ? (
+        <div className="diff-text">{segments.map((segment, i) => segment.op === 'equal'
+            ? <span key={i}>{segment.text}</span>
+            : <span key={i} className={`diff-segment diff-segment--${segment.op}`}>{segment.text}</span>)}</div>
+    ) : (
+        <div className="diff-split">
+            <div className="diff-text">{renderSide('insert')}</div>
+            <div className="diff-text">{renderSide('delete')}</div>
+        </div>
+    );
+};
+
+const DraftComparison: FC<{
+    texts: ComparableText[];
+    beforeKey: string;
+    afterKey: string;
+    onChange: (beforeKey: string, afterKey: string) => void;
+}> = ({ texts, beforeKey, afterKey, onChange }) => {
+    const [layout, setLayout] = useState<'inline' | 'split'>('inline');
+    const before = texts.find(text => text.key === beforeKey) ?? texts[0];
+    const after = texts.find(text => text.key === afterKey) ?? texts[texts.length - 1];
+    const segments = useMemo(() => diffWords(before.text, after.text), [before, after]);
+    const similarity = getDiffSimilarity(segments);
+
+    return (
+        <div className="inspector-agent-card diff-card">
+            <div className="diff-toolbar">
+                <select className="settings-select" value={before.key} onChange={(e) => onChange(e.target.value, after.key)} aria-label="Texto original">
+                    {texts.map(text => <option key={text.key} value={text.key}>{text.label}</option>)}
+                </select>
+                <span className="diff-arrow">→</span>
+                <select className="settings-select" value={after.key} onChange={(e) => onChange(before.key, e.target.value)} aria-label="Texto comparado">
+                    {texts.map(text => <option key={text.key} value={text.key}>{text.label}</option>)}
+                </select>
+                <select className="settings-select diff-layout-select" value={layout} onChange={(e) => setLayout(e.target.value as 'inline' | 'split')} aria-label="Modo de exibição">
+                    <option value="inline">Em linha</option>
+                    <option value="split">Lado a lado</option>
+                </select>
+            </div>
+            <div className="diff-summary">Similaridade: {Math.round(similarity * 100)}%</div>
+            <DiffView segments={segments} layout={layout} />
+        </div>
+    );
+};
+
+// Stages before the final synthesis can be re-run or trimmed when the answer's stage definitions are known.
+const GenerationInspectorModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    message: Message | null;
+    stages: PipelineStage[] | null;
+    personas: Persona[];
+    isLoading: boolean;
+    onRerun: (request: StageRerun) => void;
+}> = ({ isOpen, onClose, message, stages, personas, isLoading, onRerun }) => {
+    const details = message?.generationDetails ?? null;
+    const finalSynthesizer = stages ? getFinalSynthesizer(stages) : undefined;
+    const [excluded, setExcluded] = useState<Record<string, number[]>>({});
+    const [temperature, setTemperature] = useState(0);
+    const [personaId, setPersonaId] = useState('');
+    const [comparison, setComparison] = useState({ beforeKey: '', afterKey: 'final' });
+    const comparisonRef = useRef<HTMLDivElement>(null);
+    const comparableTexts = useMemo(() => message ? getComparableTexts(message) : [], [message]);
+    // How close each draft is to the final answer, which hints at the draft the synthesis drew on most.
+    const draftSimilarity = useMemo(() => {
+        const finalText = comparableTexts[comparableTexts.length - 1]?.text ?? '';
+        const drafts = (details?.stages ?? []).filter(run => run.role === 'brainstorm' || run.role === 'refine');
+        return Object.fromEntries(drafts.flatMap(run => run.outputs.map((text, i) => [`${run.stageId}:${i}`, getDiffSimilarity(diffWords(text, finalText))])));
+    }, [comparableTexts]);
+    const closestDraftKey = Object.keys(draftSimilarity).reduce<string | null>((best, key) => best === null || draftSimilarity[key] > draftSimilarity[best] ? key : best, null);
+
+    useEffect(() => {
+        setExcluded(Object.fromEntries((details?.stages ?? []).flatMap(run => run.excluded ? [[run.stageId, run.excluded]] : [])));
+        setTemperature(finalSynthesizer?.temperature ?? 0);
+        setPersonaId(finalSynthesizer?.personaId ?? '');
+        // Starts on what the refiners changed in the first draft, when there were refiners.
+        const brainstorm = details?.stages?.find(run => run.role === 'brainstorm');
+        const refine = details?.stages?.find(run => run.role === 'refine');
+        setComparison(brainstorm && refine
+            ? { beforeKey: `${brainstorm.stageId}:0`, afterKey: `${refine.stageId}:0` }
+            : { beforeKey: comparableTexts[0]?.key ?? '', afterKey: 'final' });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [message]);
+
+    if (!isOpen) return null;
+
+    const compareWithFinal = (key: string) => {
+        setComparison({ beforeKey: key, afterKey: 'final' });
+        comparisonRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    };
+
+    const canEdit = (run: StageRun) => !!stages && !!finalSynthesizer
+        && (run.role === 'brainstorm' || run.role === 'refine')
+        && stages.findIndex(stage => stage.id === run.stageId) < stages.indexOf(finalSynthesizer);
+    // Re-runs reuse every stage before the final synthesizer, so only its direct inputs can be left out.
+    const canExclude = (run: StageRun) => canEdit(run) && !!finalSynthesizer?.inputs.includes(run.stageId);
+    const isExcluded = (run: StageRun, index: number) => excluded[run.stageId]?.includes(index) ?? false;
+    const toggleExcluded = (run: StageRun, index: number) => setExcluded(prev => ({
+        ...prev,
+        [run.stageId]: isExcluded(run, index)
+            ? prev[run.stageId].filter(i => i !== index)
+            : [...(prev[run.stageId] ?? []), index].sort((a, b) => a - b),
+    }));
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content inspector-modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>Processo de Geração</h3>
+                    {message && details?.trace && details.trace.length > 0 && (
+                        <button
+                            type="button"
+                            className="refine-action-button inspector-export-button"
+                            onClick={() => downloadFile(`trace-${message.id}.json`, serializeTrace(message), 'application/json')}
+                        >
+                            <IconDownload /> Exportar trace (JSON)
+                        </button>
+                    )}
+                    <button type="button" className="settings-close-button" onClick={onClose} aria-label="Fechar">
+                         <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                    </button>
+                </div>
+                <div className="modal-body inspector-modal-body">
+                    {details?.trace && details.trace.length > 0 && (
+                        <div className="inspector-section">
+                            <h4 className="inspector-section-title">Linha do Tempo · {details.trace.length} {details.trace.length === 1 ? 'chamada' : 'chamadas'}</h4>
+                            {details.searchQuery && <p className="inspector-rerun-hint">Consulta de pesquisa confirmada: “{details.searchQuery}”</p>}
+                            <TraceTimeline trace={details.trace} />
+                        </div>
+                    )}
+                    {details?.history && (
+                        <div className="inspector-section">
+                            <h4 className="inspector-section-title">Histórico da Conversa</h4>
+                            <div className="inspector-history-bar" title={`${details.history.includedTokens + details.history.summaryTokens} de ${details.history.budget} tokens`}>
+                                <span className="inspector-history-bar-included" style={{ width: `${Math.min(100, details.history.includedTokens / details.history.budget * 100)}%` }} />
+                                <span className="inspector-history-bar-summary" style={{ width: `${Math.min(100, details.history.summaryTokens / details.history.budget * 100)}%` }} />
+                            </div>
+                            <ul className="inspector-history-stats">
+                                <li><strong>{details.history.included}</strong> mensagens incluídas na íntegra · {details.history.includedTokens.toLocaleString('pt-BR')} tokens</li>
+                                <li>
+                                    <strong>{details.history.summarized}</strong> mensagens resumidas · {details.history.summaryTokens.toLocaleString('pt-BR')} tokens
+                                    {details.history.newlySummarized > 0 && ` (${details.history.newlySummarized} nesta execução)`}
+                                </li>
+                                <li><strong>{details.history.dropped}</strong> mensagens descartadas{details.history.dropped > 0 && ' (o resumo falhou)'}</li>
+                                {details.history.files && (
+                                    <li>
+                                        <strong>{details.history.files.length}</strong> arquivo(s) de turnos anteriores: {details.history.files.map(file => file.uploaded ? `${file.name} (enviado por upload)` : file.name).join(', ')}
+                                    </li>
+                                )}
+                            </ul>
+                            <p className="inspector-rerun-hint">
+                                Orçamento de {details.history.budget.toLocaleString('pt-BR')} tokens{details.history.fellBack && ' · contagem estimada (countTokens falhou)'}
+                            </p>
+                        </div>
+                    )}
+                    {details?.memoryRetrieval && (
+                        <div className="inspector-section">
+                            <h4 className="inspector-section-title">Memórias Injetadas · {details.memoryRetrieval.memories.length} de {details.memoryRetrieval.candidates}</h4>
+                            <p className="inspector-rerun-hint">
+                                Embeddings: {details.memoryRetrieval.model}{details.memoryRetrieval.fellBack && ' (o provedor falhou)'} · top {details.memoryRetrieval.topK} · similaridade mínima {details.memoryRetrieval.threshold.toFixed(2)}
+                            </p>
+                            {details.memoryRetrieval.memories.length === 0 ? (
+                                <p className="inspector-rerun-hint">Nenhuma memória foi parecida o bastante com a pergunta.</p>
+                            ) : (
+                                <ul className="inspector-memory-list">
+                                    {details.memoryRetrieval.memories.map(memory => (
+                                        <li key={memory.id}>
+                                            <span>{memory.text}</span>
+                                            <span className="inspector-memory-reason">
+                                                {MEMORY_CATEGORY_LABELS[memory.category]} · {memory.reason === 'pinned'
+                                                    ? `fixada, sempre incluída (similaridade ${memory.score.toFixed(2)})`
+                                                    : `similaridade ${memory.score.toFixed(2)} ≥ ${details.memoryRetrieval!.threshold.toFixed(2)}`}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                    {details?.research && details.research.length > 0 && (
+                        <div className="inspector-section">
+                            <h4 className="inspector-section-title">Pesquisa Profunda</h4>
+                            <div className="inspector-card-grid">
+                                {details.research.map((finding, i) => (
+                                    <div key={i} className="inspector-agent-card">
+                                        <div className="inspector-agent-header">Rodada {finding.hop} · {finding.query}</div>
+                                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{finding.summary}</ReactMarkdown>
+                                        {finding.sources.length > 0 && <SourcesDisplay sources={dedupeSources(finding.sources)} />}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {details?.stages && details.stages.length > 0 ? (
+                        details.stages
+                            // The last synthesis is the answer shown in the chat itself.
+                            .filter((run, index, runs) => !(run.role === 'synthesize' && runs.slice(index + 1).every(r => r.role !== 'synthesize')))
+                            .map((run, index) => (
+                                <div key={`${run.stageId}-${index}`} className="inspector-section">
+                                    <h4 className="inspector-section-title">{run.label}</h4>
+                                    <div className="inspector-card-grid">
+                                        {run.outputs.map((text, i) => (
+                                            <div key={i} className={`inspector-agent-card ${isExcluded(run, i) ? 'inspector-agent-card--excluded' : ''}`}>
+                                                <div className="inspector-agent-header">
+                                                    {STAGE_ROLE_DEFAULTS[run.role].name} · Agente {run.agentNumbers?.[i] ?? i + 1}
+                                                    {run.agentModels?.[i] && ` · ${MODEL_LABELS[run.agentModels[i]]}`}
+                                                    {run.agentPersonas?.[i] && ` · ${run.agentPersonas[i]}`}
+                                                </div>
+                                                <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+                                                {draftSimilarity[`${run.stageId}:${i}`] !== undefined && (
+                                                    <div className="inspector-similarity">
+                                                        <span className={closestDraftKey === `${run.stageId}:${i}` ? 'inspector-similarity--closest' : ''}>
+                                                            {Math.round(draftSimilarity[`${run.stageId}:${i}`] * 100)}% similar à resposta final
+                                                            {closestDraftKey === `${run.stageId}:${i}` && ' · mais próximo'}
+                                                        </span>
+                                                        <button className="refine-action-button" onClick={() => compareWithFinal(`${run.stageId}:${i}`)}>Comparar</button>
+                                                    </div>
+                                                )}
+                                                {(canExclude(run) || (canEdit(run) && run.role === 'refine')) && (
+                                                    <div className="inspector-agent-actions">
+                                                        {canExclude(run) && (
+                                                            <label className="inspector-exclude-toggle">
+                                                                <input
+                                                                    type="checkbox"
+                                                                    checked={!isExcluded(run, i)}
+                                                                    // At least one output has to reach the next stage.
+                                                                    disabled={!isExcluded(run, i) && run.outputs.length - (excluded[run.stageId]?.length ?? 0) <= 1}
+                                                                    onChange={() => toggleExcluded(run, i)}
+                                                                />
+                                                                Usar nas próximas etapas
+                                                            </label>
+                                                        )}
+                                                        {run.role === 'refine' && (
+                                                            <button
+                                                                className="refine-action-button"
+                                                                disabled={isLoading}
+                                                                onClick={() => onRerun({ stageId: run.stageId, agentIndex: i, excluded })}
+                                                            >
+                                                                <IconRefresh /> Refinar de novo
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        ))}
+                                        {run.failures?.map(failure => (
+                                            <div key={`failure-${failure.agent}`} className="inspector-agent-card inspector-agent-card--failed">
+                                                <div className="inspector-agent-header">
+                                                    <IconAlertTriangle /> {STAGE_ROLE_DEFAULTS[run.role].name} · Agente {failure.agent} · falhou após {failure.attempts} {failure.attempts === 1 ? 'tentativa' : 'tentativas'}
+                                                </div>
+                                                <pre className="inspector-error-text">{failure.error}</pre>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))
+                    ) : details && details.initial.length > 0 ? (
+                        <>
+                            <div className="inspector-section">
+                                <h4 className="inspector-section-title">Respostas Iniciais</h4>
+                                <div className="inspector-card-grid">
+                                    {details.initial.map((text, i) => (
+                                        <div key={i} className="inspector-agent-card">
+                                            <div className="inspector-agent-header">Agente Inicial {details.initialAgentNumbers?.[i] ?? i + 1}</div>
+                                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                             <div className="inspector-section">
+                                <h4 className="inspector-section-title">Respostas Refinadas</h4>
+                                 <div className="inspector-card-grid">
+                                    {details.refined.map((text, i) => (
+                                        <div key={i} className="inspector-agent-card">
+                                            <div className="inspector-agent-header">Agente Refinador {details.refinedAgentNumbers?.[i] ?? i + 1}</div>
+                                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    ) : !details?.trace?.length && (
+                        <p>Nenhum detalhe de geração disponível.</p>
+                    )}
+                    {comparableTexts.length > 1 && (
+                        <div className="inspector-section" ref={comparisonRef}>
+                            <h4 className="inspector-section-title">Comparar Textos</h4>
+                            <DraftComparison
+                                texts={comparableTexts}
+                                beforeKey={comparison.beforeKey}
+                                afterKey={comparison.afterKey}
+                                onChange={(beforeKey, afterKey) => setComparison({ beforeKey, afterKey })}
+                            />
+                        </div>
+                    )}
+                    {finalSynthesizer && (
+                        <div className="inspector-section">
+                            <h4 className="inspector-section-title">Nova Versão</h4>
+                            <div className="inspector-agent-card inspector-rerun-card">
+                                <p className="inspector-rerun-hint">
+                                    Cada nova execução vira uma nova versão desta resposta. As etapas anteriores reaproveitam os rascunhos salvos, sem os que você deixou de fora.
+                                </p>
+                                <div className="settings-field">
+                                    <label>Temperatura · {finalSynthesizer.label}</label>
+                                    <div className="slider-wrapper">
+                                        <input type="range" min="0" max="1" step="0.1" value={temperature} onChange={(e) => setTemperature(parseFloat(e.target.value))} />
+                                        <span>{temperature.toFixed(1)}</span>
+                                    </div>
+                                </div>
+                                <div className="settings-field">
+                                    <label>Persona</label>
+                                    <PersonaSelect value={personaId} personas={personas} onChange={setPersonaId} emptyLabel="Instrução própria" />
+                                </div>
+                                <button
+                                    className="refine-action-button primary"
+                                    disabled={isLoading}
+                                    onClick={() => onRerun({ stageId: finalSynthesizer.id, excluded, temperature, personaId: personaId || undefined })}
+                                >
+                                    <IconRefresh /> Sintetizar novamente
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const SearchConfirmationModal: FC<{
+    isOpen: boolean;
+    onConfirm: (editedQuery: string) => void;
+    onCancel: () => void;
+    data: { searchQuery: string; questions: string[] } | null;
+}> = ({ isOpen, onConfirm, onCancel, data }) => {
+    const [editedQuery, setEditedQuery] = useState('');
 
     useEffect(() => {
-        if (isEditing && editRef.current) {
-            if (document.activeElement !== editRef.current) {
-                editRef.current.focus();
-            }
-            editRef.current.style.height = 'auto';
-            editRef.current.style.height = `${editRef.current.scrollHeight}px`;
+        if (data) {
+            setEditedQuery(data.searchQuery);
         }
-    }, [isEditing, editedText]);
+    }, [data]);
 
-    const handleCopy = async () => {
-        if (!data) return;
+    if (!isOpen || !data) return null;
+
+    const handleConfirm = () => {
+        if (editedQuery.trim()) {
+            onConfirm(editedQuery.trim());
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onCancel}>
+            <div className="modal-content search-confirm-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>Confirmar Pesquisa na Web</h3>
+                    <button type="button" className="settings-close-button" onClick={onCancel} aria-label="Fechar">
+                         <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                    </button>
+                </div>
+                <div className="modal-body">
+                    <div className="search-confirm-section">
+                        <label htmlFor="search-query-input">Consulta de pesquisa sugerida</label>
+                        <p>O agente sugere esta consulta para pesquisar na web. Você pode editá-la antes de continuar.</p>
+                        <input
+                            id="search-query-input"
+                            type="text"
+                            value={editedQuery}
+                            onChange={(e) => setEditedQuery(e.target.value)}
+                            className="search-query-input"
+                        />
+                    </div>
+                    {data.questions && data.questions.length > 0 && (
+                         <div className="search-confirm-section">
+                            <label>Perguntas para refinar</label>
+                            <p>Considere estas perguntas para obter resultados melhores. Você pode cancelar e refinar sua pergunta original.</p>
+                            <ul className="clarifying-questions-list">
+                                {data.questions.map((q, i) => <li key={i}>{q}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+                <div className="modal-footer">
+                    <button className="search-confirm-button cancel" onClick={onCancel}>
+                        Cancelar
+                    </button>
+                    <button className="search-confirm-button confirm" onClick={handleConfirm} disabled={!editedQuery.trim()}>
+                        <IconSearch /> Pesquisar com esta consulta
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const MockScriptEditor: FC<{
+    script: MockScriptEntry[];
+    onChange: (script: MockScriptEntry[]) => void;
+    onError: (message: string) => void;
+}> = ({ script, onChange, onError }) => {
+    const [draft, setDraft] = useState(() => JSON.stringify(script, null, 2));
+
+    const handleBlur = () => {
         try {
-            await navigator.clipboard.writeText(isEditing ? editedText : data.refined);
-            setCopyStatus('Copiado!');
-            setTimeout(() => setCopyStatus('Copiar'), 2000);
-        } catch (err) {
-            setCopyStatus('Falhou!');
-            setTimeout(() => setCopyStatus('Copiar'), 2000);
+            const parsed = JSON.parse(draft || '[]');
+            if (!Array.isArray(parsed) || !parsed.every(e => typeof e?.match === 'string' && typeof e?.response === 'string')) {
+                throw new Error('invalid script');
+            }
+            onChange(parsed);
+        } catch {
+            onError('Roteiro inválido. Use uma lista JSON de objetos { "match": "...", "response": "..." }.');
         }
     };
 
-    const handleApply = () => {
-        if (!data) return;
-        onApply(isEditing ? editedText : data.refined);
+    return (
+        <div className="settings-field">
+            <label htmlFor="mock-script">Respostas por trecho da instrução ou da pergunta</label>
+            <textarea
+                id="mock-script"
+                className="settings-text-input settings-code-input"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={handleBlur}
+                rows={6}
+                spellCheck={false}
+            />
+        </div>
+    );
+};
+
+const PersonaSelect: FC<{
+    id?: string;
+    value: string;
+    personas: Persona[];
+    onChange: (personaId: string) => void;
+    emptyLabel?: string;
+    ariaLabel?: string;
+}> = ({ id, value, personas, onChange, emptyLabel, ariaLabel }) => (
+    <select id={id} className="settings-select" value={value} onChange={(e) => onChange(e.target.value)} aria-label={ariaLabel}>
+        {emptyLabel && <option value="">{emptyLabel}</option>}
+        {(Object.keys(STAGE_ROLE_DEFAULTS) as StageRole[]).map(role => (
+            <optgroup key={role} label={STAGE_ROLE_DEFAULTS[role].name}>
+                {personas.filter(p => p.role === role).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+        ))}
+    </select>
+);
+
+const UsageBadge: FC<{ entries: UsageEntry[]; prices: PriceTable }> = ({ entries, prices }) => {
+    const { usage, cost } = summarizeUsage(entries, prices);
+    return (
+        <span className="usage-badge" title={formatUsageBreakdown(entries, prices)}>
+            {formatTokenCount(getTotalTokens(usage))} tokens · {formatCost(cost)}
+        </span>
+    );
+};
+
+const ModelSelect: FC<{
+    id?: string;
+    value: ModelName | '';
+    onChange: (model: ModelName | '') => void;
+    inheritLabel?: string;
+    ariaLabel?: string;
+}> = ({ id, value, onChange, inheritLabel, ariaLabel }) => (
+    <select id={id} className="settings-select" value={value} onChange={(e) => onChange(e.target.value as ModelName | '')} aria-label={ariaLabel}>
+        {inheritLabel && <option value="">{inheritLabel}</option>}
+        {MODEL_NAMES.map(model => <option key={model} value={model}>{MODEL_LABELS[model]}</option>)}
+    </select>
+);
+
+const PersonaLibraryModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    personas: Persona[];
+    onSave: (persona: Persona) => void;
+    onDelete: (id: string) => void;
+    onImport: (personas: Persona[]) => void;
+    onError: (message: string) => void;
+}> = ({ isOpen, onClose, personas, onSave, onDelete, onImport, onError }) => {
+    const [draft, setDraft] = useState<Persona | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isOpen) setDraft(null);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const customPersonas = personas.filter(p => !p.isBuiltIn);
+    const isSaved = !!draft && personas.some(p => p.id === draft.id);
+    const isValid = !!draft && !!draft.name.trim() && !!draft.instruction.trim();
+
+    const handleNew = () => {
+        setDraft({ id: createId(), name: "Nova persona", role: 'brainstorm', instruction: '' });
+    };
+
+    const handleDuplicate = () => {
+        if (!draft) return;
+        const { isBuiltIn, ...persona } = draft;
+        setDraft({ ...persona, id: createId(), name: `${draft.name} (cópia)` });
+    };
+
+    const handleSave = () => {
+        if (!draft || !isValid) return;
+        onSave({ ...draft, name: draft.name.trim() });
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onImport(parsePersonaFile(await file.text(), personas));
+        } catch (error) {
+            onError(error instanceof Error ? error.message : "Não foi possível importar as personas.");
+        }
     };
 
     return (
-        <div className="refine-panel">
-            <div className="refine-panel-header">
-                <h3>Refinar Pergunta</h3>
-                <button type="button" className="settings-close-button" onClick={onClose} aria-label="Fechar painel de refinar">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
-                </button>
-            </div>
-            <div className="refine-panel-content">
-                {isRefining && <div className="refine-state-message"><IconLoader className="processing-icon"/> Refinando sua pergunta...</div>}
-                {error && <div className="refine-state-message error">{error}</div>}
-                {data && (
-                    <>
-                        <div className="refine-columns">
-                            <div className="refine-column">
-                               <h4>Original</h4>
-                                <pre>{data.original}</pre>
-                            </div>
-                            <div className="refine-column">
-                                <h4>Refinada</h4>
-                                {isEditing ? (
-                                    <textarea 
-                                        ref={editRef}
-                                        value={editedText} 
-                                        onChange={(e) => setEditedText(e.target.value)}
-                                        className="refine-edit-textarea"
-                                    />
-                                ) : (
-                                    <pre>{data.refined}</pre>
-                                )}
-                            </div>
-                        </div>
-                        <div className="refine-rationale">
-                            <h5>Nota do Refinador</h5>
-                            <p>{data.rationale}</p>
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content persona-modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>Biblioteca de Personas</h3>
+                    <button type="button" className="settings-close-button" onClick={onClose} aria-label="Fechar">
+                         <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                    </button>
+                </div>
+                <div className="modal-body persona-modal-body">
+                    <div className="persona-list">
+                        <div className="persona-list-actions">
+                            <button className="add-memory-button" onClick={handleNew}><IconPlus /> Nova</button>
+                            <button className="refine-action-button" onClick={() => importInputRef.current?.click()}>Importar</button>
+                            <button
+                                className="refine-action-button"
+                                onClick={() => downloadFile('personas.json', serializePersonas(customPersonas), 'application/json')}
+                                disabled={customPersonas.length === 0}
+                            >
+                                Exportar
+                            </button>
+                            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
                         </div>
-                        {data.questions && data.questions.length > 0 && (
-                            <div className="refine-questions">
-                                <h5>Perguntas para Esclarecer</h5>
-                                <ul>
-                                    {data.questions.map((q, i) => <li key={i}>{q}</li>)}
-                                </ul>
+                        {(Object.keys(STAGE_ROLE_DEFAULTS) as StageRole[]).map(role => (
+                            <div key={role} className="persona-list-group">
+                                <h4 className="settings-group-title">{STAGE_ROLE_DEFAULTS[role].name}</h4>
+                                {personas.filter(p => p.role === role).map(persona => (
+                                    <button
+                                        key={persona.id}
+                                        className={`persona-list-item ${draft?.id === persona.id ? 'active' : ''}`}
+                                        onClick={() => setDraft({ ...persona })}
+                                    >
+                                        <span>{persona.name}</span>
+                                        {persona.isBuiltIn && <span className="persona-badge">padrão</span>}
+                                    </button>
+                                ))}
                             </div>
+                        ))}
+                    </div>
+                    <div className="persona-editor">
+                        {!draft ? (
+                            <p className="empty-memories-message">Selecione uma persona para ver suas instruções ou crie uma nova.</p>
+                        ) : (
+                            <>
+                                {draft.isBuiltIn && (
+                                    <p className="persona-note">As personas padrão não podem ser editadas. Duplique-a para criar uma versão personalizada.</p>
+                                )}
+                                <div className="settings-field">
+                                    <label htmlFor="persona-name">Nome</label>
+                                    <input id="persona-name" type="text" className="settings-text-input" value={draft.name} readOnly={draft.isBuiltIn} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                                </div>
+                                <div className="settings-field">
+                                    <label htmlFor="persona-role">Papel</label>
+                                    <select id="persona-role" className="settings-select" value={draft.role} disabled={draft.isBuiltIn} onChange={(e) => setDraft({ ...draft, role: e.target.value as StageRole })}>
+                                        {(Object.keys(STAGE_ROLE_DEFAULTS) as StageRole[]).map(role => <option key={role} value={role}>{STAGE_ROLE_DEFAULTS[role].name}</option>)}
+                                    </select>
+                                </div>
+                                <div className="settings-field">
+                                    <label htmlFor="persona-instruction">Instrução de sistema</label>
+                                    <textarea id="persona-instruction" className="settings-text-input" rows={12} value={draft.instruction} readOnly={draft.isBuiltIn} onChange={(e) => setDraft({ ...draft, instruction: e.target.value })} />
+                                </div>
+                            </>
                         )}
-                        <div className="refine-actions">
-                            <button className="refine-action-button primary" onClick={handleApply}>Aplicar</button>
-                            <button className="refine-action-button" onClick={() => setIsEditing(!isEditing)}>{isEditing ? "Cancelar" : "Editar"}</button>
-                            <button className="refine-action-button" onClick={handleCopy}>{copyStatus}</button>
-                        </div>
-                    </>
+                    </div>
+                </div>
+                {draft && (
+                    <div className="modal-footer pipeline-modal-footer">
+                        {isSaved && !draft.isBuiltIn && (
+                            <button className="clear-all-memories-button" onClick={() => { onDelete(draft.id); setDraft(null); }}>
+                                Excluir
+                            </button>
+                        )}
+                        <button className="refine-action-button" onClick={handleDuplicate}>Duplicar</button>
+                        {!draft.isBuiltIn && (
+                            <button className="refine-action-button primary" onClick={handleSave} disabled={!isValid}>Salvar</button>
+                        )}
+                    </div>
                 )}
             </div>
         </div>
     );
 };
 
-const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
-};
-
-const Notification: FC<{
-    message: string;
-    type: 'success' | 'error';
-    onDismiss: () => void;
-}> = ({ message, type, onDismiss }) => {
-    useEffect(() => {
-        const timer = setTimeout(() => {
-            onDismiss();
-        }, 5000);
-        return () => clearTimeout(timer);
-    }, [onDismiss]);
+// Saved on blur rather than per keystroke, since every change to a conversation is written to IndexedDB.
+const ConversationInstructionsField: FC<{ value: string; onSave: (instructions: string) => void }> = ({ value, onSave }) => {
+    const [draft, setDraft] = useState(value);
+
+    return (
+        <div className="settings-group">
+            <h3 className="settings-group-title">Instruções da Conversa</h3>
+            <textarea
+                className="settings-text-input conversation-instructions-input"
+                rows={4}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={() => { if (draft !== value) onSave(draft); }}
+                placeholder="Ex.: Responda sempre em inglês e cite a legislação aplicável."
+                aria-label="Instruções da conversa"
+            />
+            <p className="settings-hint">Enviadas a todos os agentes desta conversa. Modelo, modo de pesquisa, profundidade, pipeline e temperaturas também ficam guardados por conversa; novas conversas herdam do perfil ativo.</p>
+        </div>
+    );
+};
+
+const ProfileManager: FC<{
+    profiles: SettingsProfile[];
+    activeProfileId: string | null;
+    isActiveModified: boolean;
+    currentSettings: ProfileSettings;
+    onApply: (id: string) => void;
+    onSave: (name: string) => void;
+    onUpdate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onImport: (profiles: SettingsProfile[]) => void;
+    onError: (message: string) => void;
+}> = ({ profiles, activeProfileId, isActiveModified, currentSettings, onApply, onSave, onUpdate, onDelete, onImport, onError }) => {
+    const [name, setName] = useState('');
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const handleSave = (e: FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        onSave(name.trim());
+        setName('');
+    };
 
-    const Icon = type === 'success' ? IconCheck : IconAlertTriangle;
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onImport(parseProfileFile(await file.text(), profiles, currentSettings));
+        } catch (error) {
+            onError(error instanceof Error ? error.message : "Não foi possível importar os perfis.");
+        }
+    };
 
     return (
-        <div className={`notification notification--${type}`}>
-            <Icon />
-            <span>{message}</span>
-            <button onClick={onDismiss} className="notification-dismiss" aria-label="Dispensar">
-               <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
-            </button>
+        <div className="settings-group">
+            <h3 className="settings-group-title">Perfis de Configuração</h3>
+            <form className="profile-save-form" onSubmit={handleSave}>
+                <input
+                    type="text"
+                    className="settings-text-input"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Ex.: Consulta rápida"
+                    aria-label="Nome do perfil"
+                />
+                <button type="submit" className="manage-memory-button" disabled={!name.trim()}>Salvar atual</button>
+            </form>
+            {profiles.length > 0 && (
+                <ul className="profile-list">
+                    {profiles.map(profile => (
+                        <li key={profile.id} className={`profile-item ${profile.id === activeProfileId ? 'active' : ''}`}>
+                            <button className="profile-name" onClick={() => onApply(profile.id)} title="Aplicar perfil">
+                                {profile.name}
+                                {profile.id === activeProfileId && <span className="persona-badge">{isActiveModified ? 'modificado' : 'ativo'}</span>}
+                            </button>
+                            {profile.id === activeProfileId && isActiveModified && (
+                                <button className="refine-action-button" onClick={() => onUpdate(profile.id)} title="Guardar as configurações atuais neste perfil">Atualizar</button>
+                            )}
+                            <button className="delete-memory-button" onClick={() => onDelete(profile.id)} aria-label={`Excluir perfil ${profile.name}`}>
+                                <IconTrash />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="profile-transfer-actions">
+                <button className="refine-action-button" onClick={() => importInputRef.current?.click()}>Importar</button>
+                <button
+                    className="refine-action-button"
+                    onClick={() => downloadFile('perfis.json', serializeProfiles(profiles), 'application/json')}
+                    disabled={profiles.length === 0}
+                >
+                    Exportar
+                </button>
+                <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+            </div>
+            <p className="settings-hint">Um perfil guarda modelo, pesquisa, profundidade, pipeline, temperaturas, personas e ferramentas. Chaves de API nunca são incluídas.</p>
         </div>
     );
 };
 
-const MemoryManagementModal: FC<{
+const ConversationTransferModal: FC<{
     isOpen: boolean;
     onClose: () => void;
-    memories: string[];
-    onDelete: (index: number) => void;
-    onClearAll: () => void;
-    onAdd: (memory: string) => void;
-}> = ({ isOpen, onClose, memories, onDelete, onClearAll, onAdd }) => {
-    const [newMemory, setNewMemory] = useState('');
+    conversations: Conversation[];
+    currentConversation?: Conversation;
+    onImport: (conversations: Conversation[]) => void;
+    onError: (message: string) => void;
+}> = ({ isOpen, onClose, conversations, currentConversation, onImport, onError }) => {
+    const [scope, setScope] = useState<'current' | 'all'>('current');
+    const [isExporting, setIsExporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isOpen) setScope(currentConversation?.messages.length ? 'current' : 'all');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
 
     if (!isOpen) return null;
 
-    const handleAdd = (e: FormEvent) => {
-        e.preventDefault();
-        if (newMemory.trim()) {
-            onAdd(newMemory.trim());
-            setNewMemory('');
+    const selected = scope === 'current' ? (currentConversation ? [currentConversation] : []) : conversations.filter(c => !c.deletedAt);
+
+    const handleExport = async (format: ExportFormat) => {
+        setIsExporting(true);
+        try {
+            await exportConversations(selected, format);
+        } catch (error) {
+            onError(error instanceof Error ? error.message : "Não foi possível exportar as conversas.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onImport(parseConversationsFile(await file.text(), conversations));
+        } catch (error) {
+            onError(error instanceof Error ? error.message : "Não foi possível importar as conversas.");
         }
     };
 
@@ -460,261 +4107,416 @@ const MemoryManagementModal: FC<{
         <div className="modal-overlay" onClick={onClose}>
             <div className="modal-content" onClick={(e) => e.stopPropagation()}>
                 <div className="modal-header">
-                    <h3>Gerenciar Memória</h3>
+                    <h3>Exportar e Importar</h3>
                     <button type="button" className="settings-close-button" onClick={onClose} aria-label="Fechar">
                          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
                     </button>
                 </div>
                 <div className="modal-body">
-                     <form onSubmit={handleAdd} className="add-memory-form">
-                        <textarea
-                            value={newMemory}
-                            onChange={(e) => setNewMemory(e.target.value)}
-                            placeholder="Adicionar nova memória para o agente..."
-                            className="add-memory-input"
-                            aria-label="Nova memória"
-                            rows={2}
-                        />
-                        <button type="submit" className="add-memory-button" disabled={!newMemory.trim()}>
-                            <IconPlus /> Adicionar
-                        </button>
-                    </form>
-                    {memories.length === 0 ? (
-                        <p className="empty-memories-message">Nenhuma memória armazenada ainda.</p>
-                    ) : (
-                        <ul className="memory-list">
-                            {memories.map((memory, index) => (
-                                <li key={index} className="memory-item">
-                                    <span>{memory}</span>
-                                    <button onClick={() => onDelete(index)} className="delete-memory-button" aria-label="Deletar memória">
-                                        <IconTrash />
-                                    </button>
-                                </li>
-                            ))}
-                        </ul>
-                    )}
-                </div>
-                <div className="modal-footer">
-                    <button 
-                        className="clear-all-memories-button" 
-                        onClick={onClearAll}
-                        disabled={memories.length === 0}
-                    >
-                        Limpar Toda a Memória
-                    </button>
+                    <div className="transfer-section">
+                        <h4 className="settings-group-title">Exportar</h4>
+                        <div className="transfer-scope">
+                            <label>
+                                <input type="radio" name="transfer-scope" checked={scope === 'current'} disabled={!currentConversation} onChange={() => setScope('current')} />
+                                Conversa atual{currentConversation ? ` (${currentConversation.title})` : ''}
+                            </label>
+                            <label>
+                                <input type="radio" name="transfer-scope" checked={scope === 'all'} onChange={() => setScope('all')} />
+                                Todas as conversas ({conversations.filter(c => !c.deletedAt).length})
+                            </label>
+                        </div>
+                        <div className="persona-list-actions">
+                            <button className="refine-action-button" onClick={() => handleExport('markdown')} disabled={isExporting || selected.length === 0}>Markdown</button>
+                            <button className="refine-action-button" onClick={() => handleExport('json')} disabled={isExporting || selected.length === 0}>JSON</button>
+                            <button className="refine-action-button" onClick={() => handleExport('html')} disabled={isExporting || selected.length === 0}>HTML</button>
+                        </div>
+                        <p className="settings-hint">O JSON preserva tudo (detalhes da geração, anexos e fontes) e pode ser importado de volta. Markdown e HTML são para leitura e compartilhamento.</p>
+                    </div>
+                    <div className="transfer-section">
+                        <h4 className="settings-group-title">Importar</h4>
+                        <div className="persona-list-actions">
+                            <button className="add-memory-button" onClick={() => importInputRef.current?.click()}>Importar JSON</button>
+                            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+                        </div>
+                        <p className="settings-hint">Conversas importadas são adicionadas ao histórico; nenhuma conversa existente é substituída.</p>
+                    </div>
                 </div>
             </div>
         </div>
     );
 };
 
-const ProactiveSuggestions: FC<{
-    suggestions: string[];
-    onSelect: (suggestion: string) => void;
-}> = ({ suggestions, onSelect }) => {
-    if (suggestions.length === 0) return null;
-    return (
-        <div className="proactive-suggestions-container">
-            {suggestions.map((suggestion, index) => (
-                <button key={index} className="proactive-suggestion-button" onClick={() => onSelect(suggestion)}>
-                    <IconWand />
-                    <span>{suggestion}</span>
+interface MenuAction {
+    label: string;
+    onClick: () => void;
+    danger?: boolean;
+}
+
+const ConversationActionsMenu: FC<{ actions: MenuAction[]; onClose: () => void }> = ({ actions, onClose }) => (
+    <>
+        <div className="menu-backdrop" onClick={onClose} />
+        <div className="conversation-menu" role="menu">
+            {actions.map(action => (
+                <button
+                    key={action.label}
+                    role="menuitem"
+                    className={`conversation-menu-item ${action.danger ? 'danger' : ''}`}
+                    onClick={() => { onClose(); action.onClick(); }}
+                >
+                    {action.label}
                 </button>
             ))}
         </div>
-    );
-};
+    </>
+);
 
-const AttachmentDisplay: FC<{ files: File[] }> = ({ files }) => {
-    const [previews, setPreviews] = useState<{[key: string]: string}>({});
+// Edits the folder and tags of one or more conversations; with several, an untouched folder field keeps each one's own.
+const OrganizeConversationsModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    conversations: Conversation[];
+    folders: string[];
+    tags: string[];
+    onApply: (update: (conversation: Conversation) => Conversation) => void;
+}> = ({ isOpen, onClose, conversations, folders, tags, onApply }) => {
+    const [folder, setFolder] = useState('');
+    const [isFolderTouched, setIsFolderTouched] = useState(false);
+    const [addedTags, setAddedTags] = useState<string[]>([]);
+    const [removedTags, setRemovedTags] = useState<string[]>([]);
+    const [tagInput, setTagInput] = useState('');
+
+    const sharedFolder = conversations.every(c => c.folder === conversations[0]?.folder) ? conversations[0]?.folder ?? '' : null;
 
     useEffect(() => {
-        const newPreviews: {[key: string]: string} = {};
-        let isMounted = true;
-
-        files.forEach(file => {
-            if (file.type.startsWith('image/')) {
-                const reader = new FileReader();
-                reader.onloadend = () => {
-                    if (isMounted) {
-                        newPreviews[file.name] = reader.result as string;
-                        setPreviews(p => ({...p, ...newPreviews}));
-                    }
-                };
-                reader.readAsDataURL(file);
-            }
-        });
-        
-        return () => { isMounted = false; };
-    }, [files]);
+        if (!isOpen) return;
+        setFolder(sharedFolder ?? '');
+        setIsFolderTouched(false);
+        setAddedTags([]);
+        setRemovedTags([]);
+        setTagInput('');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
 
-    return (
-        <div className="attachment-display-grid">
-            {files.map((file, i) => (
-                <div key={i} className="attachment-display-item">
-                    {previews[file.name] ? (
-                        <img src={previews[file.name]} alt={file.name} className="attachment-image-preview" />
-                    ) : (
-                        <div className="attachment-file-icon">{getFileTypeIcon(file.type)}</div>
-                    )}
-                    <div className="attachment-file-info">
-                        <span className="attachment-filename">{file.name}</span>
-                        <span className="attachment-filesize">{formatFileSize(file.size)}</span>
-                    </div>
-                </div>
-            ))}
-        </div>
-    );
-};
+    if (!isOpen || conversations.length === 0) return null;
 
-const CodeExecutionBlock: FC<{ output: ToolOutput }> = ({ output }) => {
-    const [isCodeVisible, setIsCodeVisible] = useState(false);
+    const shownTags = uniqueSorted([...conversations.flatMap(c => c.tags ?? []).filter(tag => !removedTags.includes(tag)), ...addedTags]);
 
-    const renderOutput = (part: Part) => {
-        if ('text' in part) {
-            return <pre className="code-exec-output-text">{part.text}</pre>;
-        }
-        if ('inlineData' in part && part.inlineData.mimeType.startsWith('image/')) {
-            const imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            return <img src={imageUrl} alt="Resultado do código" className="code-exec-output-image" />;
-        }
-        return <pre className="code-exec-output-text">Formato de saída não suportado.</pre>;
+    const handleAddTag = () => {
+        const tag = normalizeTag(tagInput);
+        setTagInput('');
+        if (!tag) return;
+        setAddedTags(prev => prev.includes(tag) ? prev : [...prev, tag]);
+        setRemovedTags(prev => prev.filter(t => t !== tag));
     };
 
-    return (
-        <div className="code-exec-block">
-            <div className="code-exec-header">
-                <IconTerminalSquare />
-                <span>Interpretador de Código Python</span>
-                <button onClick={() => setIsCodeVisible(!isCodeVisible)}>
-                    {isCodeVisible ? 'Ocultar código' : 'Mostrar código'}
-                </button>
-            </div>
-            {isCodeVisible && (
-                 <div className="code-exec-input">
-                    <CodeBlock>{output.code}</CodeBlock>
-                 </div>
-            )}
-            <div className="code-exec-output">
-                <div className="code-exec-output-header">Saída</div>
-                {output.result.map((part, index) => <div key={index}>{renderOutput(part)}</div>)}
-            </div>
-        </div>
-    );
-};
+    const handleRemoveTag = (tag: string) => {
+        setAddedTags(prev => prev.filter(t => t !== tag));
+        setRemovedTags(prev => prev.includes(tag) ? prev : [...prev, tag]);
+    };
 
-const GenerationInspectorModal: FC<{
-    isOpen: boolean;
-    onClose: () => void;
-    details: GenerationDetails | null;
-}> = ({ isOpen, onClose, details }) => {
-    if (!isOpen) return null;
+    const handleApply = () => {
+        const pendingTag = normalizeTag(tagInput);
+        const added = pendingTag && !addedTags.includes(pendingTag) ? [...addedTags, pendingTag] : addedTags;
+        onApply(conversation => {
+            const nextTags = uniqueSorted([...(conversation.tags ?? []).filter(tag => !removedTags.includes(tag)), ...added]);
+            return {
+                ...conversation,
+                ...(isFolderTouched && { folder: folder.trim() || undefined }),
+                tags: nextTags.length > 0 ? nextTags : undefined,
+            };
+        });
+        onClose();
+    };
 
     return (
         <div className="modal-overlay" onClick={onClose}>
-            <div className="modal-content inspector-modal-content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
                 <div className="modal-header">
-                    <h3>Processo de Geração</h3>
+                    <h3>{conversations.length === 1 ? `Organizar "${conversations[0].title}"` : `Organizar ${conversations.length} conversas`}</h3>
                     <button type="button" className="settings-close-button" onClick={onClose} aria-label="Fechar">
                          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
                     </button>
                 </div>
-                <div className="modal-body inspector-modal-body">
-                    {details ? (
-                        <>
-                            <div className="inspector-section">
-                                <h4 className="inspector-section-title">Respostas Iniciais</h4>
-                                <div className="inspector-card-grid">
-                                    {details.initial.map((text, i) => (
-                                        <div key={i} className="inspector-agent-card">
-                                            <div className="inspector-agent-header">Agente Inicial {i+1}</div>
-                                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
-                                        </div>
-                                    ))}
-                                </div>
-                            </div>
-                             <div className="inspector-section">
-                                <h4 className="inspector-section-title">Respostas Refinadas</h4>
-                                 <div className="inspector-card-grid">
-                                    {details.refined.map((text, i) => (
-                                        <div key={i} className="inspector-agent-card">
-                                            <div className="inspector-agent-header">Agente Refinador {i+1}</div>
-                                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
-                                        </div>
-                                    ))}
-                                </div>
-                            </div>
-                        </>
-                    ) : (
-                        <p>Nenhum detalhe de geração disponível.</p>
-                    )}
+                <div className="modal-body">
+                    <div className="settings-field">
+                        <label htmlFor="organize-folder">Pasta</label>
+                        <input
+                            id="organize-folder"
+                            type="text"
+                            className="settings-text-input"
+                            list="organize-folder-options"
+                            value={folder}
+                            placeholder={sharedFolder === null ? "Várias pastas (mantidas)" : "Sem pasta"}
+                            onChange={(e) => { setFolder(e.target.value); setIsFolderTouched(true); }}
+                        />
+                        <datalist id="organize-folder-options">
+                            {folders.map(name => <option key={name} value={name} />)}
+                        </datalist>
+                    </div>
+                    <div className="settings-field">
+                        <label htmlFor="organize-tag">Tags</label>
+                        <div className="tag-chips">
+                            {shownTags.map(tag => (
+                                <span key={tag} className="tag-chip">
+                                    #{tag}
+                                    <button type="button" onClick={() => handleRemoveTag(tag)} aria-label={`Remover tag ${tag}`}>×</button>
+                                </span>
+                            ))}
+                            {shownTags.length === 0 && <span className="settings-hint">Nenhuma tag.</span>}
+                        </div>
+                        <input
+                            id="organize-tag"
+                            type="text"
+                            className="settings-text-input"
+                            list="organize-tag-options"
+                            value={tagInput}
+                            placeholder="Adicionar tag e pressionar Enter"
+                            onChange={(e) => setTagInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' || e.key === ',') {
+                                    e.preventDefault();
+                                    handleAddTag();
+                                }
+                            }}
+                        />
+                        <datalist id="organize-tag-options">
+                            {tags.filter(tag => !shownTags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+                        </datalist>
+                    </div>
+                </div>
+                <div className="modal-footer">
+                    <button className="refine-action-button" onClick={onClose}>Cancelar</button>
+                    <button className="refine-action-button primary" onClick={handleApply}>Aplicar</button>
                 </div>
             </div>
         </div>
     );
 };
 
-const SearchConfirmationModal: FC<{
+const PipelineEditorModal: FC<{
     isOpen: boolean;
-    onConfirm: (editedQuery: string) => void;
-    onCancel: () => void;
-    data: { searchQuery: string; questions: string[] } | null;
-}> = ({ isOpen, onConfirm, onCancel, data }) => {
-    const [editedQuery, setEditedQuery] = useState('');
+    onClose: () => void;
+    pipelines: PipelineDefinition[];
+    activePipelineId: string | null;
+    templatePipeline: PipelineDefinition;
+    personas: Persona[];
+    onSave: (pipeline: PipelineDefinition, activate: boolean) => void;
+    onDelete: (id: string) => void;
+}> = ({ isOpen, onClose, pipelines, activePipelineId, templatePipeline, personas, onSave, onDelete }) => {
+    const [draft, setDraft] = useState<PipelineDefinition | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const active = pipelines.find(p => p.id === activePipelineId);
+        setDraft(active ? structuredClone(active) : null);
+        setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const isSaved = !!draft && pipelines.some(p => p.id === draft.id);
+
+    const handleNew = () => {
+        setError(null);
+        setDraft({
+            id: createId(),
+            name: "Novo pipeline",
+            stages: templatePipeline.stages.map(({ agentTemperatures, ...stage }) => ({ ...stage })),
+        });
+    };
+
+    const handleSelect = (id: string) => {
+        setError(null);
+        const pipeline = pipelines.find(p => p.id === id);
+        setDraft(pipeline ? structuredClone(pipeline) : null);
+    };
+
+    const updateStages = (getStages: (stages: PipelineStage[]) => PipelineStage[]) => {
+        setDraft(prev => {
+            if (!prev) return prev;
+            // Inputs may only point backwards, so drop any reference that a move or removal invalidated.
+            const stages = getStages(prev.stages).map((stage, index, all) => ({
+                ...stage,
+                inputs: stage.inputs.filter(id => all.slice(0, index).some(s => s.id === id)),
+            }));
+            return { ...prev, stages };
+        });
+    };
+
+    const updateStage = (id: string, changes: Partial<PipelineStage>) => {
+        updateStages(stages => stages.map(stage => stage.id === id ? { ...stage, ...changes } : stage));
+    };
 
-    useEffect(() => {
-        if (data) {
-            setEditedQuery(data.searchQuery);
-        }
-    }, [data]);
+    const addStage = (role: StageRole) => {
+        updateStages(stages => [...stages, createStage(role, { inputs: stages.length > 0 ? [stages[stages.length - 1].id] : [] })]);
+    };
 
-    if (!isOpen || !data) return null;
+    const moveStage = (index: number, offset: number) => {
+        updateStages(stages => {
+            const target = index + offset;
+            if (target < 0 || target >= stages.length) return stages;
+            const next = [...stages];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
 
-    const handleConfirm = () => {
-        if (editedQuery.trim()) {
-            onConfirm(editedQuery.trim());
-        }
+    const toggleInput = (stage: PipelineStage, inputId: string) => {
+        const inputs = stage.inputs.includes(inputId) ? stage.inputs.filter(id => id !== inputId) : [...stage.inputs, inputId];
+        updateStage(stage.id, { inputs });
+    };
+
+    const handleSave = (activate: boolean) => {
+        if (!draft) return;
+        const validationError = validatePipeline(draft);
+        setError(validationError);
+        if (!validationError) onSave(draft, activate);
     };
 
     return (
-        <div className="modal-overlay" onClick={onCancel}>
-            <div className="modal-content search-confirm-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content pipeline-modal-content" onClick={(e) => e.stopPropagation()}>
                 <div className="modal-header">
-                    <h3>Confirmar Pesquisa na Web</h3>
-                    <button type="button" className="settings-close-button" onClick={onCancel} aria-label="Fechar">
+                    <h3>Pipelines de Agentes</h3>
+                    <button type="button" className="settings-close-button" onClick={onClose} aria-label="Fechar">
                          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
                     </button>
                 </div>
                 <div className="modal-body">
-                    <div className="search-confirm-section">
-                        <label htmlFor="search-query-input">Consulta de pesquisa sugerida</label>
-                        <p>O agente sugere esta consulta para pesquisar na web. Você pode editá-la antes de continuar.</p>
-                        <input
-                            id="search-query-input"
-                            type="text"
-                            value={editedQuery}
-                            onChange={(e) => setEditedQuery(e.target.value)}
-                            className="search-query-input"
-                        />
+                    <div className="pipeline-toolbar">
+                        <select className="settings-select" value={isSaved ? draft!.id : ''} onChange={(e) => handleSelect(e.target.value)} aria-label="Pipeline salvo">
+                            <option value="">{draft && !isSaved ? "(não salvo)" : "Selecione um pipeline..."}</option>
+                            {pipelines.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <button className="add-memory-button" onClick={handleNew}><IconPlus /> Novo</button>
                     </div>
-                    {data.questions && data.questions.length > 0 && (
-                         <div className="search-confirm-section">
-                            <label>Perguntas para refinar</label>
-                            <p>Considere estas perguntas para obter resultados melhores. Você pode cancelar e refinar sua pergunta original.</p>
-                            <ul className="clarifying-questions-list">
-                                {data.questions.map((q, i) => <li key={i}>{q}</li>)}
-                            </ul>
-                        </div>
+                    {!draft ? (
+                        <p className="empty-memories-message">
+                            Sem pipeline personalizado ativo, a profundidade escolhida na barra de entrada define o fluxo. Crie um pipeline a partir do fluxo Profundo para ajustá-lo.
+                        </p>
+                    ) : (
+                        <>
+                            <div className="settings-field">
+                                <label htmlFor="pipeline-name">Nome</label>
+                                <input id="pipeline-name" type="text" className="settings-text-input" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                            </div>
+                            <ol className="pipeline-stage-list">
+                                {draft.stages.map((stage, index) => (
+                                    <li key={stage.id} className="pipeline-stage-card">
+                                        <div className="pipeline-stage-header">
+                                            <span className="pipeline-stage-role">{STAGE_ROLE_DEFAULTS[stage.role].icon}{STAGE_ROLE_DEFAULTS[stage.role].name}</span>
+                                            <input type="text" className="settings-text-input" value={stage.label} onChange={(e) => updateStage(stage.id, { label: e.target.value })} aria-label="Nome da etapa" />
+                                            <button className="message-action-button" onClick={() => moveStage(index, -1)} disabled={index === 0} aria-label="Mover para cima">↑</button>
+                                            <button className="message-action-button" onClick={() => moveStage(index, 1)} disabled={index === draft.stages.length - 1} aria-label="Mover para baixo">↓</button>
+                                            <button className="delete-memory-button" onClick={() => updateStages(stages => stages.filter(s => s.id !== stage.id))} aria-label="Remover etapa"><IconTrash /></button>
+                                        </div>
+                                        <div className="pipeline-stage-grid">
+                                            <div className="settings-field">
+                                                <label>Modelo</label>
+                                                <ModelSelect value={stage.model} onChange={(model) => updateStage(stage.id, { model: model as ModelName })} />
+                                            </div>
+                                            <div className="settings-field">
+                                                <label>Temperatura</label>
+                                                <div className="slider-wrapper">
+                                                    <input type="range" min="0" max="1" step="0.1" value={stage.temperature} onChange={(e) => updateStage(stage.id, { temperature: parseFloat(e.target.value) })} />
+                                                    <span>{stage.temperature.toFixed(1)}</span>
+                                                </div>
+                                            </div>
+                                            {stage.role === 'brainstorm' && (
+                                                <div className="settings-field">
+                                                    <label>Agentes</label>
+                                                    <input type="number" className="settings-text-input" min={1} max={MAX_STAGE_AGENTS} value={stage.count} onChange={(e) => updateStage(stage.id, { count: parseInt(e.target.value, 10) || 1 })} />
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className="settings-field">
+                                            <label>Persona</label>
+                                            <PersonaSelect
+                                                value={stage.personaId ?? ''}
+                                                personas={personas}
+                                                onChange={(personaId) => updateStage(stage.id, { personaId: personaId || undefined })}
+                                                emptyLabel="Instrução própria"
+                                            />
+                                        </div>
+                                        {stage.role === 'brainstorm' && (
+                                            <div className="settings-field">
+                                                <label>Agentes</label>
+                                                <div className="pipeline-agent-list">
+                                                    {Array.from({ length: stage.count }, (_, i) => (
+                                                        <div key={i} className="agent-assignment-row">
+                                                            <span className="pipeline-agent-label">Agente {i + 1}</span>
+                                                            <PersonaSelect
+                                                                value={stage.agentPersonaIds?.[i] ?? ''}
+                                                                personas={personas}
+                                                                onChange={(personaId) => {
+                                                                    const agentPersonaIds = Array.from({ length: stage.count }, (_, j) => stage.agentPersonaIds?.[j] ?? '');
+                                                                    agentPersonaIds[i] = personaId;
+                                                                    updateStage(stage.id, { agentPersonaIds });
+                                                                }}
+                                                                emptyLabel="Persona da etapa"
+                                                                ariaLabel={`Persona do agente ${i + 1}`}
+                                                            />
+                                                            <ModelSelect
+                                                                value={stage.agentModels?.[i] ?? ''}
+                                                                onChange={(model) => {
+                                                                    const agentModels = Array.from({ length: stage.count }, (_, j) => stage.agentModels?.[j] ?? '');
+                                                                    agentModels[i] = model;
+                                                                    updateStage(stage.id, { agentModels });
+                                                                }}
+                                                                inheritLabel="Modelo da etapa"
+                                                                ariaLabel={`Modelo do agente ${i + 1}`}
+                                                            />
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+                                        {index > 0 && (
+                                            <div className="settings-field">
+                                                <label>Entradas</label>
+                                                <div className="pipeline-stage-inputs">
+                                                    {draft.stages.slice(0, index).map(input => (
+                                                        <label key={input.id} className="pipeline-input-option">
+                                                            <input type="checkbox" checked={stage.inputs.includes(input.id)} onChange={() => toggleInput(stage, input.id)} />
+                                                            {input.label}
+                                                        </label>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+                                        {!personas.some(p => p.id === stage.personaId) && (
+                                            <div className="settings-field">
+                                                <label>Instrução de sistema</label>
+                                                <textarea className="settings-text-input" rows={3} value={stage.prompt} onChange={(e) => updateStage(stage.id, { prompt: e.target.value })} />
+                                            </div>
+                                        )}
+                                    </li>
+                                ))}
+                            </ol>
+                            <div className="pipeline-add-stage">
+                                {(Object.keys(STAGE_ROLE_DEFAULTS) as StageRole[]).map(role => (
+                                    <button key={role} className="refine-action-button" onClick={() => addStage(role)}>
+                                        <IconPlus /> {STAGE_ROLE_DEFAULTS[role].name}
+                                    </button>
+                                ))}
+                            </div>
+                            {error && <div className="refine-state-message error">{error}</div>}
+                        </>
                     )}
                 </div>
-                <div className="modal-footer">
-                    <button className="search-confirm-button cancel" onClick={onCancel}>
-                        Cancelar
-                    </button>
-                    <button className="search-confirm-button confirm" onClick={handleConfirm} disabled={!editedQuery.trim()}>
-                        <IconSearch /> Pesquisar com esta consulta
-                    </button>
-                </div>
+                {draft && (
+                    <div className="modal-footer pipeline-modal-footer">
+                        {isSaved && (
+                            <button className="clear-all-memories-button" onClick={() => { onDelete(draft.id); setDraft(null); }}>
+                                Excluir
+                            </button>
+                        )}
+                        <button className="refine-action-button" onClick={() => handleSave(false)}>Salvar</button>
+                        <button className="refine-action-button primary" onClick={() => handleSave(true)}>Salvar e usar</button>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -744,8 +4546,10 @@ const CollapsibleSection: FC<CollapsibleSectionProps> = ({ title, children, isOp
 };
 
 const App: FC = () => {
-    const [ai, setAi] = useState<GoogleGenAI | null>(null);
+    const [provider, setProvider] = useState<LLMProvider | null>(null);
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
     const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [isStorageReady, setIsStorageReady] = useState<boolean>(false);
     const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
     const [input, setInput] = useState<string>('');
     const [attachedFiles, setAttachedFiles] = useState<AttachedFile[]>([]);
@@ -755,7 +4559,7 @@ const App: FC = () => {
     const [showSettings, setShowSettings] = useState<boolean>(false);
     const [isInputAreaDragging, setIsInputAreaDragging] = useState<boolean>(false);
     const [isWindowDragging, setIsWindowDragging] = useState<boolean>(false);
-    const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+    const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error'; action?: NotificationAction } | null>(null);
     const [initialTemps, setInitialTemps] = useState<number[]>([0.9, 0.9, 0.9, 0.9]);
     const [refinementTemp, setRefinementTemp] = useState<number>(0.9);
     const [synthesizerTemp, setSynthesizerTemp] = useState<number>(0.9);
@@ -763,6 +4567,33 @@ const App: FC = () => {
     const [modelName, setModelName] = useState<ModelName>('gemini-2.5-pro');
     const [generationDepth, setGenerationDepth] = useState<GenerationDepth>('deep');
     const [isSelfCorrectionEnabled, setIsSelfCorrectionEnabled] = useState<boolean>(true);
+    const [customPipelines, setCustomPipelines] = useState<PipelineDefinition[]>([]);
+    const [activePipelineId, setActivePipelineId] = useState<string | null>(null);
+    const [showPipelineEditor, setShowPipelineEditor] = useState<boolean>(false);
+    const [customPersonas, setCustomPersonas] = useState<Persona[]>([]);
+    const [personaAssignments, setPersonaAssignments] = useState<PersonaAssignments>(DEFAULT_PERSONA_ASSIGNMENTS);
+    const [showPersonaLibrary, setShowPersonaLibrary] = useState<boolean>(false);
+    const [modelAssignments, setModelAssignments] = useState<ModelAssignments>(DEFAULT_MODEL_ASSIGNMENTS);
+    const [priceTable, setPriceTable] = useState<PriceTable>(DEFAULT_PRICE_TABLE);
+    const [usageLedger, setUsageLedger] = useState<UsageLedger>({});
+    const [retrySettings, setRetrySettings] = useState<RetrySettings>(DEFAULT_RETRY_SETTINGS);
+    const [memoryRetrieval, setMemoryRetrieval] = useState<MemoryRetrievalSettings>(DEFAULT_MEMORY_RETRIEVAL);
+    const [researchSettings, setResearchSettings] = useState<ResearchSettings>(DEFAULT_RESEARCH_SETTINGS);
+    const [settingsProfiles, setSettingsProfiles] = useState<SettingsProfile[]>([]);
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+    const [showTransferModal, setShowTransferModal] = useState<boolean>(false);
+    const [searchQuery, setSearchQuery] = useState<string>('');
+    const [searchFilters, setSearchFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+    const [showSearchFilters, setShowSearchFilters] = useState<boolean>(false);
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+    const [editingMessageText, setEditingMessageText] = useState<string>('');
+    const [highlightedMessage, setHighlightedMessage] = useState<{ conversationId: string; messageId: string } | null>(null);
+    const [sidebarView, setSidebarView] = useState<SidebarView>('active');
+    const [sidebarGrouping, setSidebarGrouping] = useState<SidebarGrouping>('none');
+    const [isSelectionMode, setIsSelectionMode] = useState<boolean>(false);
+    const [selectedConversationIds, setSelectedConversationIds] = useState<string[]>([]);
+    const [openMenuConversationId, setOpenMenuConversationId] = useState<string | null>(null);
+    const [organizeConversationIds, setOrganizeConversationIds] = useState<string[] | null>(null);
 
     const [isRefinePanelOpen, setIsRefinePanelOpen] = useState(false);
     const [refineData, setRefineData] = useState<RefineData | null>(null);
@@ -770,14 +4601,17 @@ const App: FC = () => {
     const [refineError, setRefineError] = useState<string | null>(null);
 
     const [isLongTermMemoryEnabled, setIsLongTermMemoryEnabled] = useState<boolean>(true);
-    const [longTermMemories, setLongTermMemories] = useState<string[]>([]);
+    const [isMemoryReviewEnabled, setIsMemoryReviewEnabled] = useState<boolean>(false);
+    const [longTermMemories, setLongTermMemories] = useState<MemoryRecord[]>([]);
+    const [memoryInbox, setMemoryInbox] = useState<MemoryProposal[]>([]);
+    const [memoryRejections, setMemoryRejections] = useState<MemoryRejection[]>([]);
     const [showMemoryModal, setShowMemoryModal] = useState<boolean>(false);
     
     const [proactiveSuggestions, setProactiveSuggestions] = useState<string[]>([]);
 
     const [isCodeInterpreterEnabled, setIsCodeInterpreterEnabled] = useState<boolean>(true);
     const [isInspectorModalOpen, setIsInspectorModalOpen] = useState<boolean>(false);
-    const [selectedMessageDetails, setSelectedMessageDetails] = useState<GenerationDetails | null>(null);
+    const [inspectedMessage, setInspectedMessage] = useState<Message | null>(null);
 
     const [showSearchConfirmation, setShowSearchConfirmation] = useState<boolean>(false);
     const [searchConfirmationData, setSearchConfirmationData] = useState<SearchConfirmationData | null>(null);
@@ -786,12 +4620,137 @@ const App: FC = () => {
     const [editingTitle, setEditingTitle] = useState<string>('');
     
     const [openSettingsSections, setOpenSettingsSections] = useState({
+        conversation: false,
+        profiles: false,
         model: true,
         agents: false,
         tools: false,
         memory: false,
+        provider: false,
+        usage: false,
     });
 
+    const activePipeline = customPipelines.find(p => p.id === activePipelineId) ?? null;
+    const isFastMode = !activePipeline && generationDepth === 'fast';
+    const personas = [...BUILT_IN_PERSONAS, ...customPersonas];
+    const getDefaultPipeline = (depth: 'balanced' | 'deep') => buildDefaultPipeline(depth, { initialTemps, refinementTemp, synthesizerTemp, modelName, personas: personaAssignments, models: modelAssignments });
+    const getPipelineForRun = (): PipelineDefinition => activePipeline ?? getDefaultPipeline(generationDepth === 'balanced' ? 'balanced' : 'deep');
+
+    const currentProfileSettings: ProfileSettings = {
+        modelName, researchMode, generationDepth, activePipelineId, initialTemps, refinementTemp, synthesizerTemp,
+        isSelfCorrectionEnabled, isCodeInterpreterEnabled, isLongTermMemoryEnabled,
+        personaAssignments, modelAssignments, researchSettings, retrySettings, memoryRetrieval,
+    };
+    const activeProfile = settingsProfiles.find(p => p.id === activeProfileId) ?? null;
+    const isActiveProfileModified = !!activeProfile && !isSameSettings(activeProfile.settings, currentProfileSettings);
+
+    const handleSelectDepth = (depth: GenerationDepth) => {
+        setGenerationDepth(depth);
+        setActivePipelineId(null);
+    };
+
+    const handleSavePipeline = (pipeline: PipelineDefinition, activate: boolean) => {
+        setCustomPipelines(prev => prev.some(p => p.id === pipeline.id)
+            ? prev.map(p => p.id === pipeline.id ? pipeline : p)
+            : [...prev, pipeline]);
+        if (activate) setActivePipelineId(pipeline.id);
+        setNotification({ message: `Pipeline "${pipeline.name}" salvo.`, type: 'success' });
+    };
+
+    const handleDeletePipeline = (id: string) => {
+        setCustomPipelines(prev => prev.filter(p => p.id !== id));
+        if (activePipelineId === id) setActivePipelineId(null);
+    };
+
+    const handleSavePersona = (persona: Persona) => {
+        setCustomPersonas(prev => prev.some(p => p.id === persona.id)
+            ? prev.map(p => p.id === persona.id ? persona : p)
+            : [...prev, persona]);
+    };
+
+    const handleDeletePersona = (id: string) => {
+        setCustomPersonas(prev => prev.filter(p => p.id !== id));
+        const reassign = (personaId: string, role: StageRole) => personaId === id ? builtInPersonaId(role) : personaId;
+        setPersonaAssignments(prev => ({
+            initial: prev.initial.map(personaId => reassign(personaId, 'brainstorm')),
+            refine: reassign(prev.refine, 'refine'),
+            synthesize: reassign(prev.synthesize, 'synthesize'),
+            critic: reassign(prev.critic, 'critic'),
+        }));
+        // Stages that used the persona go back to their own prompt.
+        setCustomPipelines(prev => prev.map(pipeline => ({
+            ...pipeline,
+            stages: pipeline.stages.map(({ personaId, agentPersonaIds, ...stage }) => ({
+                ...stage,
+                ...(personaId && personaId !== id && { personaId }),
+                ...(agentPersonaIds && { agentPersonaIds: agentPersonaIds.map(agentPersonaId => agentPersonaId === id ? '' : agentPersonaId) }),
+            })),
+        })));
+    };
+
+    const handleImportPersonas = (imported: Persona[]) => {
+        setCustomPersonas(prev => [...prev, ...imported]);
+        setNotification({ message: `${imported.length} persona(s) importada(s).`, type: 'success' });
+    };
+
+    const handleApplyProfile = (id: string | null) => {
+        const profile = settingsProfiles.find(p => p.id === id);
+        if (!profile) {
+            setActiveProfileId(null);
+            return;
+        }
+        const settings = normalizeProfileSettings(profile.settings, currentProfileSettings);
+        setModelName(settings.modelName);
+        setResearchMode(settings.researchMode);
+        setGenerationDepth(settings.generationDepth);
+        // A profile imported from elsewhere may point at a pipeline that does not exist here.
+        setActivePipelineId(customPipelines.some(p => p.id === settings.activePipelineId) ? settings.activePipelineId : null);
+        setInitialTemps(settings.initialTemps);
+        setRefinementTemp(settings.refinementTemp);
+        setSynthesizerTemp(settings.synthesizerTemp);
+        setIsSelfCorrectionEnabled(settings.isSelfCorrectionEnabled);
+        setIsCodeInterpreterEnabled(settings.isCodeInterpreterEnabled);
+        setIsLongTermMemoryEnabled(settings.isLongTermMemoryEnabled);
+        setPersonaAssignments(settings.personaAssignments);
+        setModelAssignments(settings.modelAssignments);
+        setResearchSettings(settings.researchSettings);
+        setRetrySettings(settings.retrySettings);
+        setMemoryRetrieval(settings.memoryRetrieval);
+        setActiveProfileId(profile.id);
+        setNotification({ message: `Perfil "${profile.name}" aplicado.`, type: 'success' });
+    };
+
+    // Saving under a name that already exists overwrites that profile instead of creating a twin.
+    const handleSaveProfile = (name: string) => {
+        const existing = settingsProfiles.find(p => p.name.toLowerCase() === name.toLowerCase());
+        const profile: SettingsProfile = { id: existing?.id ?? createId(), name, settings: currentProfileSettings, updatedAt: Date.now() };
+        setSettingsProfiles(prev => existing ? prev.map(p => p.id === existing.id ? profile : p) : [...prev, profile]);
+        setActiveProfileId(profile.id);
+        setNotification({ message: `Perfil "${name}" salvo.`, type: 'success' });
+    };
+
+    const handleUpdateProfile = (id: string) => {
+        setSettingsProfiles(prev => prev.map(p => p.id === id ? { ...p, settings: currentProfileSettings, updatedAt: Date.now() } : p));
+        setActiveProfileId(id);
+    };
+
+    const handleDeleteProfile = (id: string) => {
+        setSettingsProfiles(prev => prev.filter(p => p.id !== id));
+        if (activeProfileId === id) setActiveProfileId(null);
+    };
+
+    const handleImportProfiles = (imported: SettingsProfile[]) => {
+        setSettingsProfiles(prev => [...prev, ...imported]);
+        setNotification({ message: `${imported.length} perfil(is) importado(s).`, type: 'success' });
+    };
+
+    const handleImportConversations = (imported: Conversation[]) => {
+        if (imported.length === 0) return;
+        setConversations(prev => [...imported, ...prev]);
+        setShowTransferModal(false);
+        setNotification({ message: `${imported.length} conversa(s) importada(s).`, type: 'success' });
+    };
+
     const toggleSection = (section: keyof typeof openSettingsSections) => {
         setOpenSettingsSections(prev => ({
             ...prev,
@@ -803,66 +4762,230 @@ const App: FC = () => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const timerRef = useRef<NodeJS.Timeout | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const persistedConversationsRef = useRef<Conversation[]>([]);
+    const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+    const hasWarnedAboutQuotaRef = useRef(false);
+    const tokenCountsRef = useRef(new Map<string, number>());
 
     useAutoResizeTextarea(textareaRef, input);
     
     useEffect(() => {
-        try {
-            const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            setAi(genAI);
-        } catch (error) {
-            console.error("Failed to initialize GoogleGenAI:", error);
-        }
-        
-        try {
-            const savedConversations = localStorage.getItem('gemini-heavy-conversations');
-            if (savedConversations) {
-                const parsed = JSON.parse(savedConversations);
-                setConversations(parsed);
+        loadStoredData()
+            .then(({ conversations: storedConversations, memories, memoryInbox: storedInbox, memoryRejections: storedRejections }) => {
+                persistedConversationsRef.current = storedConversations;
+                // Expired trash is dropped and flat legacy conversations become trees here; the save effect then writes both changes.
+                const keptConversations = purgeExpiredTrash(storedConversations, Date.now()).map(withMessageTree);
+                const openableConversations = keptConversations.filter(c => !c.deletedAt);
+                setConversations(keptConversations);
+                setLongTermMemories(memories);
+                setMemoryInbox(storedInbox);
+                setMemoryRejections(storedRejections);
                 const lastConversationId = localStorage.getItem('gemini-heavy-last-conversation');
-                if (lastConversationId && parsed.find((c: Conversation) => c.id === lastConversationId)) {
+                if (lastConversationId && openableConversations.find(c => c.id === lastConversationId)) {
                     setCurrentConversationId(lastConversationId);
-                } else if (parsed.length > 0) {
-                    setCurrentConversationId(parsed[0].id);
+                } else if (openableConversations.length > 0) {
+                    setCurrentConversationId(openableConversations[0].id);
                 } else {
                     handleNewChat();
                 }
-            } else {
+            })
+            .catch(error => {
+                console.error("Failed to load data from IndexedDB", error);
+                setNotification({ message: "Não foi possível carregar as conversas salvas.", type: 'error' });
                 handleNewChat();
-            }
-
-            const savedMemories = localStorage.getItem('gemini-heavy-ltm');
-            if (savedMemories) setLongTermMemories(JSON.parse(savedMemories));
-            
-            const memorySetting = localStorage.getItem('gemini-heavy-ltm-enabled');
-            if(memorySetting) setIsLongTermMemoryEnabled(JSON.parse(memorySetting));
-            
-            const correctionSetting = localStorage.getItem('gemini-heavy-correction-enabled');
-            if(correctionSetting) setIsSelfCorrectionEnabled(JSON.parse(correctionSetting));
+            })
+            .finally(() => setIsStorageReady(true));
 
-            const codeInterpreterSetting = localStorage.getItem('gemini-heavy-code-interpreter-enabled');
-            if(codeInterpreterSetting) setIsCodeInterpreterEnabled(JSON.parse(codeInterpreterSetting));
+        try {
+            // Checked like an imported profile, so a malformed or unreadable value keeps its default.
+            const readStored = (key: string): unknown => {
+                const saved = localStorage.getItem(key);
+                if (saved === null) return undefined;
+                try {
+                    return JSON.parse(saved);
+                } catch {
+                    return undefined;
+                }
+            };
+            const pipelines = normalizePipelines(readStored('gemini-heavy-pipelines'));
+            setCustomPipelines(pipelines);
+            setCustomPersonas(normalizePersonas(readStored('gemini-heavy-personas')));
+
+            const restored = normalizeProfileSettings({
+                modelName: readStored('gemini-heavy-model'),
+                researchMode: readStored('gemini-heavy-research-mode'),
+                generationDepth: readStored('gemini-heavy-depth'),
+                activePipelineId: readStored('gemini-heavy-active-pipeline'),
+                initialTemps: readStored('gemini-heavy-initial-temps'),
+                refinementTemp: readStored('gemini-heavy-refinement-temp'),
+                synthesizerTemp: readStored('gemini-heavy-synthesizer-temp'),
+                isSelfCorrectionEnabled: readStored('gemini-heavy-correction-enabled'),
+                isCodeInterpreterEnabled: readStored('gemini-heavy-code-interpreter-enabled'),
+                isLongTermMemoryEnabled: readStored('gemini-heavy-ltm-enabled'),
+                personaAssignments: readStored('gemini-heavy-persona-assignments'),
+                modelAssignments: readStored('gemini-heavy-model-assignments'),
+                researchSettings: readStored('gemini-heavy-deep-research'),
+                retrySettings: readStored('gemini-heavy-retry'),
+                memoryRetrieval: readStored('gemini-heavy-memory-retrieval'),
+            }, currentProfileSettings);
+            setModelName(restored.modelName);
+            setResearchMode(restored.researchMode);
+            setGenerationDepth(restored.generationDepth);
+            setActivePipelineId(pipelines.some(p => p.id === restored.activePipelineId) ? restored.activePipelineId : null);
+            setInitialTemps(restored.initialTemps);
+            setRefinementTemp(restored.refinementTemp);
+            setSynthesizerTemp(restored.synthesizerTemp);
+            setIsSelfCorrectionEnabled(restored.isSelfCorrectionEnabled);
+            setIsCodeInterpreterEnabled(restored.isCodeInterpreterEnabled);
+            setIsLongTermMemoryEnabled(restored.isLongTermMemoryEnabled);
+            setPersonaAssignments(restored.personaAssignments);
+            setModelAssignments(restored.modelAssignments);
+            setResearchSettings(restored.researchSettings);
+            setRetrySettings(restored.retrySettings);
+            setMemoryRetrieval(restored.memoryRetrieval);
+
+            const memoryReviewSetting = readStored('gemini-heavy-memory-review');
+            if (typeof memoryReviewSetting === 'boolean') setIsMemoryReviewEnabled(memoryReviewSetting);
+
+            setPriceTable(normalizePriceTable(readStored('gemini-heavy-prices'), DEFAULT_PRICE_TABLE));
+            setUsageLedger(normalizeUsageLedger(readStored('gemini-heavy-usage-ledger')));
+
+            setSettingsProfiles(restoreProfiles(readStored('gemini-heavy-profiles'), currentProfileSettings));
+            const savedActiveProfile = readStored('gemini-heavy-active-profile');
+            if (isString(savedActiveProfile)) setActiveProfileId(savedActiveProfile);
+
+            const savedSidebarGrouping = readStored('gemini-heavy-sidebar-grouping');
+            if (SIDEBAR_GROUPINGS.includes(savedSidebarGrouping as SidebarGrouping)) setSidebarGrouping(savedSidebarGrouping as SidebarGrouping);
+
+            setProviderSettings(normalizeProviderSettings(readStored('gemini-heavy-provider'), DEFAULT_PROVIDER_SETTINGS));
 
         } catch (error) {
-            console.error("Failed to load data from localStorage", error);
-            handleNewChat();
+            console.error("Failed to load settings from localStorage", error);
         }
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
     
-    useEffect(() => {
-        if (conversations.length > 0) {
-            localStorage.setItem('gemini-heavy-conversations', JSON.stringify(conversations));
+    const checkStorageQuota = async () => {
+        const ratio = await getStorageUsageRatio();
+        if (ratio === null) return;
+        if (ratio >= STORAGE_WARNING_RATIO && !hasWarnedAboutQuotaRef.current) {
+            hasWarnedAboutQuotaRef.current = true;
+            setNotification({ message: `O armazenamento local está quase cheio (${Math.round(ratio * 100)}% usado). Considere remover conversas com anexos grandes.`, type: 'error' });
+        } else if (ratio < STORAGE_WARNING_RATIO) {
+            hasWarnedAboutQuotaRef.current = false;
         }
+    };
+
+    useEffect(() => {
+        if (!isStorageReady) return;
+        // Streaming updates arrive per token; the finished message triggers the save instead.
+        const isStreaming = conversations.some(c => c.messages[c.messages.length - 1]?.isStreaming);
+        if (isStreaming || conversations === persistedConversationsRef.current) return;
+
+        const previous = persistedConversationsRef.current;
+        persistedConversationsRef.current = conversations;
+        saveQueueRef.current = saveQueueRef.current
+            .then(() => saveConversationChanges(previous, conversations))
+            .then(checkStorageQuota)
+            .catch(error => {
+                console.error("Failed to save conversations", error);
+                // Forget the snapshot so that the next save rewrites everything instead of a partial diff.
+                persistedConversationsRef.current = [];
+                setNotification({ message: "Não foi possível salvar suas conversas. As alterações recentes podem ser perdidas.", type: 'error' });
+            });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [conversations, isStorageReady]);
+
+    useEffect(() => {
         if (currentConversationId) {
             localStorage.setItem('gemini-heavy-last-conversation', currentConversationId);
         }
-    }, [conversations, currentConversationId]);
+    }, [currentConversationId]);
+
+    useEffect(() => {
+        if (!isStorageReady) return;
+        saveQueueRef.current = saveQueueRef.current
+            .then(() => saveMemories(longTermMemories))
+            .catch(error => {
+                console.error("Failed to save memories", error);
+                setNotification({ message: "Não foi possível salvar a memória de longo prazo.", type: 'error' });
+            });
+    }, [longTermMemories, isStorageReady]);
 
-    useEffect(() => { localStorage.setItem('gemini-heavy-ltm', JSON.stringify(longTermMemories)); }, [longTermMemories]);
+    useEffect(() => {
+        if (!isStorageReady) return;
+        saveQueueRef.current = saveQueueRef.current
+            .then(() => saveMemoryReview(memoryInbox, memoryRejections))
+            .catch(error => {
+                console.error("Failed to save memory review", error);
+                setNotification({ message: "Não foi possível salvar as memórias em revisão.", type: 'error' });
+            });
+    }, [memoryInbox, memoryRejections, isStorageReady]);
     useEffect(() => { localStorage.setItem('gemini-heavy-ltm-enabled', JSON.stringify(isLongTermMemoryEnabled)); }, [isLongTermMemoryEnabled]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-memory-review', JSON.stringify(isMemoryReviewEnabled)); }, [isMemoryReviewEnabled]);
     useEffect(() => { localStorage.setItem('gemini-heavy-correction-enabled', JSON.stringify(isSelfCorrectionEnabled)); }, [isSelfCorrectionEnabled]);
     useEffect(() => { localStorage.setItem('gemini-heavy-code-interpreter-enabled', JSON.stringify(isCodeInterpreterEnabled)); }, [isCodeInterpreterEnabled]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-provider', JSON.stringify(providerSettings)); }, [providerSettings]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-pipelines', JSON.stringify(customPipelines)); }, [customPipelines]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-active-pipeline', JSON.stringify(activePipelineId)); }, [activePipelineId]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-personas', JSON.stringify(customPersonas)); }, [customPersonas]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-persona-assignments', JSON.stringify(personaAssignments)); }, [personaAssignments]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-model-assignments', JSON.stringify(modelAssignments)); }, [modelAssignments]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-prices', JSON.stringify(priceTable)); }, [priceTable]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-usage-ledger', JSON.stringify(usageLedger)); }, [usageLedger]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-retry', JSON.stringify(retrySettings)); }, [retrySettings]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-memory-retrieval', JSON.stringify(memoryRetrieval)); }, [memoryRetrieval]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-deep-research', JSON.stringify(researchSettings)); }, [researchSettings]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-sidebar-grouping', JSON.stringify(sidebarGrouping)); }, [sidebarGrouping]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-model', JSON.stringify(modelName)); }, [modelName]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-research-mode', JSON.stringify(researchMode)); }, [researchMode]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-depth', JSON.stringify(generationDepth)); }, [generationDepth]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-initial-temps', JSON.stringify(initialTemps)); }, [initialTemps]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-refinement-temp', JSON.stringify(refinementTemp)); }, [refinementTemp]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-synthesizer-temp', JSON.stringify(synthesizerTemp)); }, [synthesizerTemp]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-profiles', JSON.stringify(settingsProfiles)); }, [settingsProfiles]);
+    useEffect(() => { localStorage.setItem('gemini-heavy-active-profile', JSON.stringify(activeProfileId)); }, [activeProfileId]);
+
+    // Opening a conversation restores its own settings. One without any (new, or saved by an older version) adopts the current ones.
+    useEffect(() => {
+        const conversation = conversations.find(c => c.id === currentConversationId);
+        if (!conversation) return;
+        if (!conversation.settings) {
+            setConversations(prev => prev.map(c => c.id === conversation.id ? { ...c, settings: toConversationSettings(currentProfileSettings) } : c));
+            return;
+        }
+        const settings = conversation.settings;
+        setModelName(settings.modelName);
+        setResearchMode(settings.researchMode);
+        setGenerationDepth(settings.generationDepth);
+        setActivePipelineId(customPipelines.some(p => p.id === settings.activePipelineId) ? settings.activePipelineId : null);
+        setInitialTemps(settings.initialTemps);
+        setRefinementTemp(settings.refinementTemp);
+        setSynthesizerTemp(settings.synthesizerTemp);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [currentConversationId]);
+
+    // Deliberately not keyed on the conversation id: on a switch the restore above runs first, and the next render stores what it restored.
+    useEffect(() => {
+        if (!currentConversationId) return;
+        const settings = toConversationSettings(currentProfileSettings);
+        setConversations(prev => {
+            const conversation = prev.find(c => c.id === currentConversationId);
+            if (!conversation || (conversation.settings && isSameSettings(conversation.settings, settings))) return prev;
+            return prev.map(c => c.id === currentConversationId ? { ...c, settings } : c);
+        });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [modelName, researchMode, generationDepth, activePipelineId, initialTemps, refinementTemp, synthesizerTemp]);
+
+    useEffect(() => {
+        try {
+            setProvider(createProvider(providerSettings));
+        } catch (error) {
+            console.error("Failed to initialize LLM provider:", error);
+            setProvider(null);
+        }
+    }, [providerSettings]);
 
     // Auto-save input draft
     useEffect(() => {
@@ -891,6 +5014,14 @@ const App: FC = () => {
         }
     }, [conversations, currentConversationId, isLoading, proactiveSuggestions]);
 
+    // Declared after the scroll-to-bottom effect so that a search jump wins when both run.
+    useEffect(() => {
+        if (!highlightedMessage || highlightedMessage.conversationId !== currentConversationId) return;
+        messageListRef.current?.querySelector(`[data-message-id="${highlightedMessage.messageId}"]`)?.scrollIntoView({ block: 'center' });
+        const timeout = setTimeout(() => setHighlightedMessage(null), 2500);
+        return () => clearTimeout(timeout);
+    }, [highlightedMessage, currentConversationId]);
+
     useEffect(() => {
         if (isLoading) {
             timerRef.current = setInterval(() => {
@@ -1041,9 +5172,11 @@ const App: FC = () => {
             id: Date.now().toString(),
             title: "Nova Conversa",
             messages: [],
+            ...(activeProfile && { settings: toConversationSettings(activeProfile.settings) }),
         };
         setConversations(prev => [newConversation, ...prev]);
         setCurrentConversationId(newConversation.id);
+        setSidebarView('active');
         setInput('');
         setAttachedFiles([]);
         setShowSettings(false);
@@ -1051,6 +5184,19 @@ const App: FC = () => {
         setProactiveSuggestions([]);
     };
 
+    const handleToggleContextFile = (key: string) => {
+        if (!currentConversationId) return;
+        updateConversation(currentConversationId, c => ({
+            ...c,
+            unpinnedFiles: c.unpinnedFiles?.includes(key) ? c.unpinnedFiles.filter(k => k !== key) : [...(c.unpinnedFiles ?? []), key],
+        }));
+    };
+
+    const handleSaveConversationInstructions = (instructions: string) => {
+        if (!currentConversationId) return;
+        setConversations(prev => prev.map(c => c.id === currentConversationId ? { ...c, instructions: instructions.trim() || undefined } : c));
+    };
+
     const handleSelectConversation = (id: string) => {
         if (isLoading || editingConversationId) return;
         setCurrentConversationId(id);
@@ -1059,6 +5205,14 @@ const App: FC = () => {
         setProactiveSuggestions([]);
     };
 
+    const handleSelectSearchHit = (hit: SearchHit) => {
+        if (isLoading || editingConversationId) return;
+        handleSelectConversation(hit.conversationId);
+        // The hit may sit on a branch that is not shown; switch to it unless it is already on the active path.
+        updateConversation(hit.conversationId, c => getActivePath(c).some(m => m.id === hit.messageId) ? c : { ...c, activeLeafId: getLatestLeaf(c, hit.messageId) });
+        setHighlightedMessage({ conversationId: hit.conversationId, messageId: hit.messageId });
+    };
+
     const handleRenameConversation = (id: string, newTitle: string) => {
         const trimmedTitle = newTitle.trim();
         if (!trimmedTitle) {
@@ -1088,8 +5242,89 @@ const App: FC = () => {
         }
     };
 
+    const updateConversationsById = (ids: string[], update: (conversation: Conversation) => Conversation) => {
+        setConversations(prev => prev.map(c => ids.includes(c.id) ? update(c) : c));
+    };
+
+    const finishBulkAction = () => {
+        setSelectedConversationIds([]);
+        setIsSelectionMode(false);
+    };
+
+    // Leaves a conversation that is about to disappear from the sidebar for the most recent remaining one.
+    const moveAwayFrom = (ids: string[]) => {
+        if (!currentConversationId || !ids.includes(currentConversationId)) return;
+        const next = conversations.find(c => !ids.includes(c.id) && isInSidebarView(c, 'active'));
+        if (next) {
+            handleSelectConversation(next.id);
+        } else {
+            handleNewChat();
+        }
+    };
+
+    const handleTogglePinned = (ids: string[]) => {
+        const pin = conversations.some(c => ids.includes(c.id) && !c.pinned);
+        updateConversationsById(ids, c => ({ ...c, pinned: pin || undefined }));
+        finishBulkAction();
+    };
+
+    const handleSetArchived = (ids: string[], archived: boolean) => {
+        updateConversationsById(ids, c => ({ ...c, archived: archived || undefined }));
+        finishBulkAction();
+        setNotification({
+            message: `${ids.length} conversa(s) ${archived ? 'arquivada(s)' : 'desarquivada(s)'}.`,
+            type: 'success',
+            action: { label: "Desfazer", onClick: () => updateConversationsById(ids, c => ({ ...c, archived: !archived || undefined })) },
+        });
+    };
+
+    const handleRestoreConversations = (ids: string[]) => {
+        updateConversationsById(ids, ({ deletedAt, ...c }) => c);
+        finishBulkAction();
+    };
+
+    const handleMoveToTrash = (ids: string[]) => {
+        if (isLoading && currentConversationId && ids.includes(currentConversationId)) return;
+        const deletedAt = Date.now();
+        updateConversationsById(ids, c => ({ ...c, deletedAt }));
+        moveAwayFrom(ids);
+        finishBulkAction();
+        setNotification({
+            message: `${ids.length} conversa(s) movida(s) para a lixeira.`,
+            type: 'success',
+            action: { label: "Desfazer", onClick: () => handleRestoreConversations(ids) },
+        });
+    };
+
+    const handleDeleteForever = (ids: string[]) => {
+        setConversations(prev => prev.filter(c => !ids.includes(c.id)));
+        ids.forEach(id => localStorage.removeItem(`draft-input-${id}`));
+        finishBulkAction();
+    };
+
+    const handleToggleSelected = (id: string) => {
+        setSelectedConversationIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+    };
+
+    const getConversationActions = (conversation: Conversation): MenuAction[] => {
+        const ids = [conversation.id];
+        if (conversation.deletedAt) {
+            return [
+                { label: "Restaurar", onClick: () => handleRestoreConversations(ids) },
+                { label: "Excluir definitivamente", onClick: () => handleDeleteForever(ids), danger: true },
+            ];
+        }
+        return [
+            { label: "Renomear", onClick: () => { handleSelectConversation(conversation.id); handleStartEditing(conversation); } },
+            { label: conversation.pinned ? "Desafixar" : "Fixar", onClick: () => handleTogglePinned(ids) },
+            { label: "Pasta e tags…", onClick: () => setOrganizeConversationIds(ids) },
+            { label: conversation.archived ? "Desarquivar" : "Arquivar", onClick: () => handleSetArchived(ids, !conversation.archived) },
+            { label: "Mover para a lixeira", onClick: () => handleMoveToTrash(ids), danger: true },
+        ];
+    };
+
     const handleRefineClick = async () => {
-        if (!ai || !input.trim() || isLoading) return;
+        if (!provider || !input.trim() || isLoading) return;
         
         setIsRefining(true);
         setIsRefinePanelOpen(true);
@@ -1097,7 +5332,7 @@ const App: FC = () => {
         setRefineError(null);
 
         try {
-            const response = await ai.models.generateContent({
+            const response = await provider.generate({
                 model: 'gemini-2.5-flash',
                 contents: input,
                 config: {
@@ -1114,8 +5349,9 @@ const App: FC = () => {
                     }
                 }
             });
+            attachUsage(currentConversationId, recordUsage("Refinamento da pergunta", 'gemini-2.5-flash', response.usage));
 
-            const parsed = JSON.parse(response.text);
+            const parsed = parseJsonResponse<Omit<RefineData, 'original'>>(response.text);
             setRefineData({
                 original: input,
                 ...parsed
@@ -1135,42 +5371,317 @@ const App: FC = () => {
         textareaRef.current?.focus();
     };
 
-    const updateConversationMessages = (conversationId: string, getNewMessages: (currentMessages: Message[]) => Message[]) => {
+    const updateConversation = (conversationId: string, update: (conversation: Conversation) => Conversation) => {
         setConversations(prev =>
             prev.map(c =>
-                c.id === conversationId ? { ...c, messages: getNewMessages(c.messages) } : c
+                c.id === conversationId ? update(c) : c
             )
         );
     };
 
-    const generateAndStoreMemory = async (userInput: string, modelResponse: string) => {
-        if (!ai) return;
+    // Replaces the in-progress streaming message (if any) instead of appending a second one.
+    const replaceStreamingMessage = (conversationId: string, message: Message | null) => {
+        updateConversation(conversationId, conversation => {
+            const leaf = conversation.messages.find(m => m.id === conversation.activeLeafId);
+            const withoutStreaming = leaf?.isStreaming
+                ? { ...conversation, messages: conversation.messages.filter(m => m !== leaf), activeLeafId: leaf.parentId }
+                : conversation;
+            return message ? appendMessage(withoutStreaming, message) : withoutStreaming;
+        });
+    };
+
+    // Adds a call's tokens to the daily ledger and returns the entry to keep on a message or conversation.
+    const recordUsage = (label: string, model: string, usage: TokenUsage | undefined): UsageEntry[] => {
+        if (!usage) return [];
+        const day = getLocalDayKey();
+        setUsageLedger(prev => ({ ...prev, [day]: { ...prev[day], [model]: addUsage(prev[day]?.[model] ?? EMPTY_USAGE, usage) } }));
+        return [{ label, model, ...usage }];
+    };
+
+    // Appends usage to the given message, or to the conversation itself when the message is gone or not given.
+    const attachUsage = (conversationId: string | null, entries: UsageEntry[], message?: Message) => {
+        if (!conversationId || entries.length === 0) return;
+        setConversations(prev => prev.map(c => {
+            if (c.id !== conversationId) return c;
+            const index = message ? c.messages.findIndex(m => m.id === message.id) : -1;
+            if (index === -1) return { ...c, usage: [...(c.usage ?? []), ...entries] };
+            const messages = [...c.messages];
+            messages[index] = { ...messages[index], usage: [...(messages[index].usage ?? []), ...entries] };
+            return { ...c, messages };
+        }));
+    };
+
+    // Every change goes through eviction, so the list never holds more than MAX_MEMORIES unpinned memories.
+    const updateMemories = (update: (memories: MemoryRecord[]) => MemoryRecord[]) => {
+        setLongTermMemories(prev => evictMemories(update(prev)));
+    };
+
+    const markMemoriesUsed = (ids: string[]) => {
+        const now = Date.now();
+        setLongTermMemories(prev => prev.map(memory => ids.includes(memory.id) ? { ...memory, lastUsedAt: now } : memory));
+    };
+
+    // Fits the turns before a question into the token budget, folding older ones into the conversation's rolling summary.
+    const budgetHistory = async (
+        conversationId: string,
+        previousMessages: Message[],
+        generate: (request: LLMRequest, label: string) => Promise<LLMResponse>,
+        signal: AbortSignal,
+    ): Promise<{ history: Content[]; info: HistoryBudgetInfo }> => {
+        let fellBack = false;
+        const countContents = async (contents: Content[]): Promise<number> => {
+            if (!fellBack) {
+                try {
+                    return await withRetry(() => provider!.countTokens(modelName, contents, signal), retrySettings.maxRetries, signal);
+                } catch (error) {
+                    if (signal.aborted) throw error;
+                    console.error("Failed to count tokens, using estimates:", error);
+                    fellBack = true;
+                }
+            }
+            return estimateContentTokens(contents);
+        };
+        // Messages never change once they are in the tree, so each one is counted only once per session.
+        const count = async ({ message, content }: HistoryEntry): Promise<number> => {
+            const cached = tokenCountsRef.current.get(message.id);
+            if (cached !== undefined) return cached;
+            const tokens = await countContents([content]);
+            if (!fellBack) tokenCountsRef.current.set(message.id, tokens);
+            return tokens;
+        };
+
+        const entries = toHistoryEntries(previousMessages);
+        let start = await selectHistoryWindow(entries, HISTORY_TOKEN_BUDGET, count);
+        if (start > 0) start = await selectHistoryWindow(entries, HISTORY_TOKEN_BUDGET - HISTORY_SUMMARY_RESERVE, count);
+
+        // Each branch keeps its own summary; the one that reaches furthest along this branch is used.
+        const summaries = conversations.find(c => c.id === conversationId)?.historySummaries ?? [];
+        const coveredUntil = Math.max(-1, ...summaries.map(summary => previousMessages.findIndex(m => m.id === summary.untilMessageId)));
+        const stored = coveredUntil >= 0 ? summaries.find(summary => summary.untilMessageId === previousMessages[coveredUntil].id) : undefined;
+        const coveredIds = new Set(previousMessages.slice(0, coveredUntil + 1).map(m => m.id));
+        // Turns the summary already stands for are not repeated, even when they would fit.
+        while (start < entries.length && (coveredIds.has(entries[start].message.id) || entries[start].content.role !== 'user')) start++;
+
+        const toFold = entries.slice(0, start).filter(entry => !coveredIds.has(entry.message.id));
+        let summaryText = coveredUntil >= 0 ? stored!.text : '';
+        let summarized = coveredUntil >= 0 ? stored!.messageCount : 0;
+        let newlySummarized = 0;
+        if (toFold.length > 0) {
+            // Without a summary the older turns are dropped, which is what happened before budgeting existed.
+            try {
+                const response = await generate({
+                    model: 'gemini-2.5-flash',
+                    contents: buildHistorySummaryPrompt(summaryText, toFold),
+                    config: { systemInstruction: HISTORY_SUMMARIZER_SYSTEM_INSTRUCTION, abortSignal: signal },
+                }, "Resumo do histórico");
+                if (response.text.trim()) {
+                    summaryText = response.text.trim();
+                    newlySummarized = toFold.length;
+                    summarized += newlySummarized;
+                    const historySummary: HistorySummary = { text: summaryText, untilMessageId: toFold[toFold.length - 1].message.id, messageCount: summarized, updatedAt: Date.now() };
+                    updateConversation(conversationId, c => ({
+                        ...c,
+                        historySummaries: [historySummary, ...(c.historySummaries ?? []).filter(summary => summary.untilMessageId !== historySummary.untilMessageId)].slice(0, MAX_HISTORY_SUMMARIES),
+                    }));
+                }
+            } catch (error) {
+                if (signal.aborted) throw error;
+                console.error("Failed to summarize older turns:", error);
+            }
+        }
+
+        const included = entries.slice(start);
+        const summaryHistory = summaryText ? buildSummaryHistory(summaryText) : [];
+        let includedTokens = 0;
+        for (const entry of included) includedTokens += await count(entry);
+        return {
+            history: [...summaryHistory, ...included.map(entry => entry.content)],
+            info: {
+                budget: HISTORY_TOKEN_BUDGET,
+                included: included.length,
+                includedTokens,
+                summarized,
+                newlySummarized,
+                summaryTokens: summaryText ? await countContents(summaryHistory) : 0,
+                dropped: toFold.length - newlySummarized,
+                ...(fellBack ? { fellBack: true } : {}),
+            },
+        };
+    };
+
+    // Large files are uploaded once and referenced by handle until the handle is about to expire.
+    const prepareContextFiles = async (conversationId: string, previousMessages: Message[], signal: AbortSignal): Promise<{ history: Content[]; files: { name: string; uploaded: boolean }[] }> => {
+        const conversation = conversations.find(c => c.id === conversationId);
+        const files = getContextFiles(previousMessages, conversation?.unpinnedFiles).filter(file => file.pinned);
+        const fresh: Record<string, UploadedFileRef> = {};
+        const resolved = await Promise.all(files.map(async (file): Promise<{ part: Part; uploaded: boolean }> => {
+            if (!provider?.uploadFile || file.size <= MAX_INLINE_CONTEXT_BYTES) return { part: file.part, uploaded: false };
+            const toPart = (ref: UploadedFileRef): Part => ({ fileData: { fileUri: ref.uri, mimeType: ref.mimeType } });
+            const stored = conversation?.uploadedFiles?.[file.key];
+            if (stored && stored.expiresAt > Date.now() + UPLOAD_EXPIRY_MARGIN_MS) return { part: toPart(stored), uploaded: true };
+            try {
+                const blob = base64ToFile({ name: file.name, type: file.mimeType, lastModified: Date.now(), data: file.part.inlineData!.data! });
+                fresh[file.key] = await withRetry(() => provider.uploadFile!(blob, signal), retrySettings.maxRetries, signal);
+                return { part: toPart(fresh[file.key]), uploaded: true };
+            } catch (error) {
+                if (signal.aborted) throw error;
+                console.error(`Failed to upload ${file.name}, sending it inline:`, error);
+                return { part: file.part, uploaded: false };
+            }
+        }));
+        if (Object.keys(fresh).length > 0) {
+            updateConversation(conversationId, c => ({ ...c, uploadedFiles: { ...c.uploadedFiles, ...fresh } }));
+        }
+        return {
+            history: buildContextFilesHistory(files, resolved.map(result => result.part)),
+            files: files.map((file, i) => ({ name: file.name, uploaded: resolved[i].uploaded })),
+        };
+    };
+
+    // Embeds the question and every memory the current model hasn't embedded yet, caching the new vectors on the memories.
+    // When the provider can't embed, the local backend keeps retrieval working.
+    const retrieveMemories = async (
+        query: string,
+        embed: (texts: string[], label: string) => Promise<number[][]>,
+        signal: AbortSignal,
+    ): Promise<MemoryRetrievalInfo> => {
+        const useProvider = memoryRetrieval.backend === 'provider' && !!provider;
+        const model = useProvider ? `${provider.kind}:${provider.embeddingModel}` : LOCAL_EMBEDDING_MODEL;
+        const embedWith = (embedModel: string, texts: string[]) => embedModel === LOCAL_EMBEDDING_MODEL
+            ? Promise.resolve(texts.map(embedLocally))
+            : embed(texts, "Embeddings de memória");
+
+        const rank = async (embedModel: string): Promise<Map<string, number>> => {
+            const missing = longTermMemories.filter(memory => memory.embedding?.model !== embedModel);
+            const [queryVector, ...vectors] = await embedWith(embedModel, [query, ...missing.map(memory => memory.text)]);
+            const fresh = new Map(missing.map((memory, i) => [memory.id, { text: memory.text, vector: vectors[i] }]));
+            if (fresh.size > 0) {
+                setLongTermMemories(prev => prev.map(memory => {
+                    const embedded = fresh.get(memory.id);
+                    return embedded && embedded.text === memory.text ? { ...memory, embedding: { model: embedModel, vector: embedded.vector } } : memory;
+                }));
+            }
+            return new Map(longTermMemories.map(memory => [
+                memory.id,
+                cosineSimilarity(queryVector, fresh.get(memory.id)?.vector ?? memory.embedding?.vector ?? []),
+            ]));
+        };
+
+        let scores: Map<string, number>;
+        let fellBack = false;
+        try {
+            scores = await rank(model);
+        } catch (error) {
+            if (signal.aborted || model === LOCAL_EMBEDDING_MODEL) throw error;
+            console.error("Failed to embed memories, using the local backend:", error);
+            scores = await rank(LOCAL_EMBEDDING_MODEL);
+            fellBack = true;
+        }
+        // Local word hashing needs its own threshold, also when it stands in for the provider or backs the mock.
+        const usesLocalHash = fellBack || !useProvider || provider.embeddingModel === LOCAL_EMBEDDING_MODEL;
+        const settings = usesLocalHash && memoryRetrieval.backend === 'provider' ? { ...memoryRetrieval, threshold: DEFAULT_RETRIEVAL_THRESHOLDS.local } : memoryRetrieval;
+        return {
+            model: fellBack ? LOCAL_EMBEDDING_MODEL : model,
+            topK: settings.topK,
+            threshold: settings.threshold,
+            candidates: longTermMemories.length,
+            ...(fellBack && { fellBack }),
+            memories: selectMemories(longTermMemories, scores, settings),
+        };
+    };
+
+    const handleAcceptProposal = (id: string, text: string, category: MemoryCategory) => {
+        const proposal = memoryInbox.find(p => p.id === id);
+        if (!proposal) return;
+        // An edit can add what the proposal was checked against.
+        const sensitiveCategory = detectSensitiveMemory(text);
+        if (sensitiveCategory) {
+            setNotification({ message: `A memória contém ${SENSITIVE_CATEGORY_LABELS[sensitiveCategory]} e não pode ser salva.`, type: 'error' });
+            return;
+        }
+        setMemoryInbox(prev => prev.filter(p => p.id !== id));
+        updateMemories(prev => [createMemoryRecord(text, { category, ...(proposal.conversationId && { conversationId: proposal.conversationId }) }), ...prev]);
+    };
+
+    const handleRejectProposal = (id: string, reason: string) => {
+        const proposal = memoryInbox.find(p => p.id === id);
+        if (!proposal) return;
+        setMemoryInbox(prev => prev.filter(p => p.id !== id));
+        setMemoryRejections(prev => [{ id: proposal.id, text: proposal.text, reason, rejectedAt: Date.now() }, ...prev].slice(0, MAX_MEMORY_REJECTIONS));
+    };
+
+    const handleMergeMemories = (ids: string[]) => {
+        updateMemories(prev => {
+            const group = prev.filter(memory => ids.includes(memory.id));
+            if (group.length < 2) return prev;
+            const merged = mergeMemoryRecords(group);
+            return prev.flatMap(memory => memory === group[0] ? [merged] : ids.includes(memory.id) ? [] : [memory]);
+        });
+    };
+
+    const generateAndStoreMemory = async (userInput: string, modelResponse: string, conversationId: string): Promise<UsageEntry[]> => {
+        if (!provider) return [];
         try {
-            const memoryPrompt = `User Query: "${userInput}"\n\nAI Response: "${modelResponse}"`;
-            const response = await ai.models.generateContent({
+            const memoryPrompt = buildMemoryPrompt(userInput, modelResponse, memoryRejections);
+            const response = await provider.generate({
                 model: 'gemini-2.5-flash',
                 contents: memoryPrompt,
-                config: { systemInstruction: SUMMARIZER_SYSTEM_INSTRUCTION, temperature: 0.2 }
+                config: {
+                    systemInstruction: SUMMARIZER_SYSTEM_INSTRUCTION,
+                    temperature: 0.2,
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            memory: { type: Type.STRING },
+                            category: { type: Type.STRING, enum: Object.keys(MEMORY_CATEGORY_LABELS) },
+                        },
+                        required: ["memory", "category"]
+                    }
+                }
             });
-            const newMemory = response.text.trim();
-            if (newMemory && newMemory.length > 10) { // Basic validation
-                setLongTermMemories(prev => {
-                    const updatedMemories = [newMemory, ...prev.filter(m => m !== newMemory)];
-                    const MAX_MEMORIES = 20;
-                    return updatedMemories.slice(0, MAX_MEMORIES);
+            const usage = recordUsage("Memória", 'gemini-2.5-flash', response.usage);
+            const { memory, category } = parseJsonResponse<{ memory?: string; category?: string }>(response.text);
+            const newMemory = memory?.trim() ?? '';
+            const memoryCategory = category && Object.hasOwn(MEMORY_CATEGORY_LABELS, category) ? category as MemoryCategory : 'other';
+            const sensitiveCategory = detectSensitiveMemory(newMemory);
+            if (newMemory.length > 10 && sensitiveCategory) {
+                setNotification({ message: `Uma memória com ${SENSITIVE_CATEGORY_LABELS[sensitiveCategory]} foi bloqueada e não será salva.`, type: 'error' });
+            } else if (newMemory.length > 10 && isMemoryReviewEnabled) {
+                // Known, pending and rejected memories don't need another review. The updaters check again against
+                // the latest state, since other answers may have stored or proposed memories in the meantime.
+                const isNew = !findSimilarMemory([...longTermMemories, ...memoryInbox, ...memoryRejections], newMemory);
+                updateMemories(prev => {
+                    const known = findSimilarMemory(prev, newMemory);
+                    return known ? prev.map(m => m === known ? { ...m, lastUsedAt: Date.now() } : m) : prev;
+                });
+                setMemoryInbox(prev => findSimilarMemory([...longTermMemories, ...prev, ...memoryRejections], newMemory)
+                    ? prev
+                    : [{ id: createId(), text: newMemory, category: memoryCategory, conversationId, createdAt: Date.now() }, ...prev]);
+                if (isNew) {
+                    setNotification({ message: "Nova memória aguardando revisão.", type: 'success', action: { label: "Revisar", onClick: () => setShowMemoryModal(true) } });
+                }
+            } else if (newMemory.length > 10) { // Basic validation
+                // A near-duplicate is refreshed instead of stored twice; pinned memories keep their wording.
+                updateMemories(prev => {
+                    const similar = findSimilarMemory(prev, newMemory);
+                    if (!similar) return [createMemoryRecord(newMemory, { category: memoryCategory, conversationId }), ...prev];
+                    return prev.map(m => m === similar ? { ...m, ...(!m.pinned && { text: newMemory, category: memoryCategory, embedding: undefined }), lastUsedAt: Date.now() } : m);
                 });
             }
+            return usage;
         } catch (error) {
             console.error("Failed to generate memory:", error);
             // Fail silently, not a critical feature for the user
+            return [];
         }
     };
 
-    const generateProactiveSuggestions = async (userInput: string, modelResponse: string) => {
-        if (!ai) return;
+    const generateProactiveSuggestions = async (userInput: string, modelResponse: string): Promise<UsageEntry[]> => {
+        if (!provider) return [];
         try {
             const prompt = `--- User Query ---\n${userInput}\n\n--- AI Response ---\n${modelResponse}`;
-            const response = await ai.models.generateContent({
+            const response = await provider.generate({
                 model: 'gemini-2.5-flash',
                 contents: prompt,
                 config: {
@@ -1182,23 +5693,101 @@ const App: FC = () => {
                     }
                 }
             });
-            const suggestions = JSON.parse(response.text);
+            const usage = recordUsage("Sugestões", 'gemini-2.5-flash', response.usage);
+            const suggestions = parseJsonResponse<unknown>(response.text);
             if (Array.isArray(suggestions) && suggestions.length > 0) {
                 setProactiveSuggestions(suggestions.slice(0, 3)); // Max 3 suggestions
             }
+            return usage;
         } catch (error) {
             console.error("Failed to generate proactive suggestions:", error);
+            return [];
         }
     };
-    
-    const handleSuggestionClick = (suggestion: string) => {
-        handleSubmit(undefined, suggestion);
+    
+    const handleSuggestionClick = (suggestion: string) => {
+        handleSubmit(undefined, suggestion);
+    };
+
+    const handleStartEditMessage = (message: Message) => {
+        setEditingMessageId(message.id);
+        setEditingMessageText(getMessageText(message));
+    };
+
+    // The edited question becomes a sibling of the original, keeping its attachments.
+    const handleSubmitEdit = (message: Message) => {
+        if (!editingMessageText.trim() || isLoading) return;
+        setEditingMessageId(null);
+        submitPrompt(editingMessageText, message.parts.filter(part => !('text' in part)), message.attachedFiles ?? [], message.parentId);
+    };
+
+    // Asks the same question again; the new answer becomes a sibling of the given one.
+    const handleRegenerate = (message: Message) => {
+        const conversation = conversations.find(c => c.id === currentConversationId);
+        if (!provider || !conversation || isLoading) return;
+        const path = getPathTo(conversation, message.parentId);
+        const question = path[path.length - 1];
+        if (question?.role !== 'user') return;
+        updateConversation(conversation.id, c => ({ ...c, activeLeafId: question.id }));
+        setProactiveSuggestions([]);
+        setIsLoading(true);
+        setTimer(0);
+        executeGeneration({
+            userInput: getMessageText(question),
+            attachedFileParts: question.parts.filter(part => !('text' in part)),
+            previousMessages: path.slice(0, -1),
+            confirmedSearchQuery: null
+        });
+    };
+
+    const handleSwitchBranch = (message: Message, offset: number) => {
+        const conversation = conversations.find(c => c.id === currentConversationId);
+        if (!conversation || isLoading) return;
+        const siblings = getSiblings(conversation, message);
+        const target = siblings[siblings.indexOf(message) + offset];
+        if (!target) return;
+        updateConversation(conversation.id, c => ({ ...c, activeLeafId: getLatestLeaf(c, target.id) }));
     };
 
-    const handleShowDetails = (details: GenerationDetails) => {
-        setSelectedMessageDetails(details);
+    const handleShowDetails = (message: Message) => {
+        setInspectedMessage(message);
         setIsInspectorModalOpen(true);
     };
+
+    const getStagesForRerun = (message: Message | null): PipelineStage[] | null =>
+        message?.generationDetails && !message.isError && !message.isCancelled
+            ? getRerunnableStages(message.generationDetails, getPipelineForRun().stages)
+            : null;
+
+    // The re-run answers the same question again, so its result becomes a new version next to the inspected answer.
+    const handleRerunStage = (message: Message, request: StageRerun) => {
+        const conversation = conversations.find(c => c.id === currentConversationId);
+        const stages = getStagesForRerun(message);
+        if (!provider || !conversation || !stages || isLoading) return;
+        const path = getPathTo(conversation, message.parentId);
+        const question = path[path.length - 1];
+        if (question?.role !== 'user') return;
+        setIsInspectorModalOpen(false);
+        updateConversation(conversation.id, c => ({ ...c, activeLeafId: question.id }));
+        setProactiveSuggestions([]);
+        setIsLoading(true);
+        setTimer(0);
+        executeGeneration({
+            userInput: getMessageText(question),
+            attachedFileParts: question.parts.filter(part => !('text' in part)),
+            previousMessages: path.slice(0, -1),
+            confirmedSearchQuery: null,
+            rerun: {
+                request,
+                message,
+                stages: stages.map(stage => stage.id === request.stageId ? {
+                    ...stage,
+                    ...(request.temperature !== undefined && { temperature: request.temperature }),
+                    ...('personaId' in request && { personaId: request.personaId }),
+                } : stage),
+            },
+        });
+    };
     
     const handleSearchConfirmation = (confirmedQuery: string) => {
         if (!searchConfirmationData) return;
@@ -1208,52 +5797,61 @@ const App: FC = () => {
         executeGeneration({
             userInput: searchConfirmationData.originalUserInput,
             attachedFileParts: searchConfirmationData.attachedFileParts,
-            history: searchConfirmationData.history,
+            previousMessages: searchConfirmationData.previousMessages,
             confirmedSearchQuery: confirmedQuery
         });
 
         setSearchConfirmationData(null);
     };
 
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleSearchCancel = () => {
         setShowSearchConfirmation(false);
         setSearchConfirmationData(null);
         setIsLoading(false);
     };
     
-    const executeGeneration = async ({ userInput, attachedFileParts, history, confirmedSearchQuery }: { userInput: string; attachedFileParts: Part[]; history: Content[]; confirmedSearchQuery: string | null }) => {
-        if (!ai || !currentConversationId) return;
+    // A re-run repeats part of a stored answer's pipeline with that answer's stages and research.
+    const executeGeneration = async ({ userInput, attachedFileParts, previousMessages, confirmedSearchQuery, rerun }: { userInput: string; attachedFileParts: Part[]; previousMessages: Message[]; confirmedSearchQuery: string | null; rerun?: { request: StageRerun; message: Message; stages: PipelineStage[] } }) => {
+        if (!provider || !currentConversationId) return;
 
-        let contextPrefix = '';
-        if (isLongTermMemoryEnabled && longTermMemories.length > 0) {
-            const memoryContext = longTermMemories.join('\n- ');
-            contextPrefix = `--- Contexto da Memória de Longo Prazo ---\n- ${memoryContext}\n--- Fim do Contexto ---\n\n`;
-        }
-        const finalInputWithContext = contextPrefix + userInput;
-        
         let webContext = '';
         let sources: { uri: string; title: string }[] = [];
         let finalResponseText = '';
         let toolOutputs: ToolOutput[] = [];
-        const generationDetails: GenerationDetails = { initial: [], refined: [] };
-
-        if (generationDepth === 'fast') {
-            setLoadingTasks([{ name: "Gerando resposta...", icon: <IconBot />, status: 'pending' }]);
-        } else {
-             let currentTaskTemplate: LoadingTask[];
-            switch (researchMode) {
-                case 'web': currentTaskTemplate = WEB_RESEARCH_TASKS; break;
-                case 'deep': currentTaskTemplate = DEEP_RESEARCH_TASKS; break;
-                default: currentTaskTemplate = OFFLINE_TASKS; break;
-            }
-            let tasksForRun = [...currentTaskTemplate];
-            if (!isSelfCorrectionEnabled) {
-                tasksForRun = tasksForRun.filter(t => t.name !== CRITIC_TASK.name);
-            }
-            setLoadingTasks(tasksForRun.map(task => ({ ...task, status: 'pending' })));
-        }
+        const trace: TraceEntry[] = [];
+        const runStartedAt = Date.now();
+        const generationDetails: GenerationDetails = { initial: [], refined: [], stages: [], startedAt: runStartedAt, trace };
+
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        const abortSignal = abortController.signal;
+        let streamedText = '';
+        const streamingMessageId = createId();
+        const runUsage: UsageEntry[] = [];
+        let runEnded = false;
+        let finalMessage: Message | undefined;
+
+        const isFastRun = isFastMode && !rerun;
+        const conversationInstructions = conversations.find(c => c.id === currentConversationId)?.instructions;
+        const withInstructions = (systemInstruction?: string) => withConversationInstructions(systemInstruction, conversationInstructions);
+        const runResearchMode = rerun?.message.researchMode ?? researchMode;
+        const pipelineStages = rerun?.stages ?? (isFastMode ? [] : getPipelineForRun().stages.filter(stage => isSelfCorrectionEnabled || stage.role !== 'critic'));
+        const stagesToRun = rerun ? pipelineStages.slice(pipelineStages.findIndex(stage => stage.id === rerun.request.stageId)) : pipelineStages;
+        const storedRuns = rerun?.message.generationDetails?.stages ?? [];
+        const tasksForRun: LoadingTask[] = isFastRun
+            ? [{ name: "Gerando resposta...", icon: <IconBot />, status: 'pending' }]
+            : buildPipelineTasks(stagesToRun, runResearchMode, !!rerun);
+        setLoadingTasks(tasksForRun.map(task => ({ ...task, status: 'pending' })));
+        let reachedStage = tasksForRun[0].name;
 
         const updateTaskStatus = (index: number, status: TaskStatus) => {
+            if (status === 'active' && tasksForRun[index]) {
+                reachedStage = tasksForRun[index].name;
+            }
             setLoadingTasks(prev => {
                 return prev.map((task, i) => {
                     if (i < index) return { ...task, status: 'completed' };
@@ -1277,25 +5875,104 @@ const App: FC = () => {
         };
 
         try {
-            const parseToolOutputs = (response: any): ToolOutput[] => {
+            const parseToolOutputs = (parts: Part[]): ToolOutput[] => {
                 const outputs: ToolOutput[] = [];
-                const toolCalls = response.candidates?.[0]?.content?.parts?.filter((p: Part) => 'toolCodeOutputs' in p) ?? [];
+                const toolCalls = parts.filter(hasToolCodeOutputs);
                 for (const call of toolCalls) {
-                    if ('toolCodeOutputs' in call) {
-                        for(const toolOutput of call.toolCodeOutputs.outputs) {
-                             outputs.push({
-                                code: toolOutput.code || 'Código não encontrado',
-                                result: toolOutput.outputs || []
-                            });
-                        }
+                    for (const toolOutput of call.toolCodeOutputs.outputs) {
+                        outputs.push({
+                            code: toolOutput.code || 'Código não encontrado',
+                            result: toolOutput.outputs || []
+                        });
                     }
                 }
                 return outputs;
             };
 
+            const showStreamingText = (text: string) => {
+                streamedText = text;
+                replaceStreamingMessage(currentConversationId, { id: streamingMessageId, role: 'model', parts: [{ text }], isStreaming: true });
+            };
+
+            // Calls still in flight when the run ended, e.g. after another call failed it, are not counted.
+            const trackUsage = (label: string, model: string, response: LLMResponse): LLMResponse => {
+                if (!runEnded) runUsage.push(...recordUsage(label, model, response.usage));
+                return response;
+            };
+
+            // Every model call of the run goes through here, so the trace shows it with its retries, latency and outcome.
+            const traceCall = async (label: string, request: LLMRequest, call: () => Promise<LLMResponse>, streamed = false): Promise<LLMResponse> => {
+                const entry: TraceEntry = { label, ...describeTraceRequest(request), output: '', startedAt: Date.now() - runStartedAt, latencyMs: 0, attempts: 0, ...(streamed && { streamed }) };
+                trace.push(entry);
+                try {
+                    const response = await withRetry(() => {
+                        entry.attempts++;
+                        return call();
+                    }, retrySettings.maxRetries, abortSignal);
+                    entry.output = response.text;
+                    if (response.finishReason) entry.finishReason = response.finishReason;
+                    return response;
+                } catch (error) {
+                    entry.error = describeError(error);
+                    throw error;
+                } finally {
+                    entry.latencyMs = Date.now() - runStartedAt - entry.startedAt;
+                }
+            };
+
+            const generate = (request: LLMRequest, label: string): Promise<LLMResponse> =>
+                traceCall(label, request, () => provider.generate(request))
+                    .then(response => trackUsage(label, request.model, response));
+
+            // Streams a call into the message list and returns the aggregated response so that
+            // the tool output and grounding parsing below works the same as for non-streamed calls.
+            // A retried stream starts over, replacing whatever the failed attempt had shown.
+            const streamContent = (request: LLMRequest, label: string): Promise<LLMResponse> => traceCall(label, request, async () => {
+                let text = '';
+                const parts: Part[] = [];
+                let groundingMetadata: GroundingMetadata | undefined;
+                let usage: TokenUsage | undefined;
+                let finishReason: string | undefined;
+                for await (const chunk of provider.stream(request)) {
+                    abortSignal.throwIfAborted();
+                    parts.push(...chunk.parts);
+                    if (chunk.groundingMetadata) groundingMetadata = chunk.groundingMetadata;
+                    if (chunk.usage) usage = chunk.usage;
+                    if (chunk.finishReason) finishReason = chunk.finishReason;
+                    if (chunk.text) {
+                        text += chunk.text;
+                        showStreamingText(text);
+                    }
+                }
+                return trackUsage(label, request.model, { text, parts, groundingMetadata, usage, finishReason });
+            }, true);
+
+            // Embedding calls show up in the trace and the usage like the model calls.
+            const embed = async (texts: string[], label: string): Promise<number[][]> => {
+                let vectors: number[][] = [];
+                const request: LLMRequest = { model: provider.embeddingModel, contents: texts.join('\n') };
+                await traceCall(label, request, async () => {
+                    const response = await provider.embed(texts, abortSignal);
+                    vectors = response.vectors;
+                    return { text: `[${vectors.length} vetores]`, parts: [], usage: response.usage };
+                }).then(response => trackUsage(label, request.model, response));
+                return vectors;
+            };
+
+            if (isLongTermMemoryEnabled && longTermMemories.length > 0) {
+                generationDetails.memoryRetrieval = await retrieveMemories(userInput, embed, abortSignal);
+                markMemoriesUsed(generationDetails.memoryRetrieval.memories.map(memory => memory.id));
+            }
+            const finalInputWithContext = buildMemoryContext(generationDetails.memoryRetrieval?.memories ?? []) + userInput;
+
+            const { history: turnHistory, info: historyInfo } = await budgetHistory(currentConversationId, previousMessages, generate, abortSignal);
+            const fileContext = await prepareContextFiles(currentConversationId, previousMessages, abortSignal);
+            const history = [...fileContext.history, ...turnHistory];
+            generationDetails.history = { ...historyInfo, ...(fileContext.files.length > 0 && { files: fileContext.files }) };
+
             const codeInterpreterTool: { codeExecution: {} }[] = isCodeInterpreterEnabled ? [{ codeExecution: {} }] : [];
 
-            if (generationDepth === 'fast') {
+            if (isFastRun) {
                 updateTaskStatus(0, 'active');
                 
                 const promptWithContext: Content = {
@@ -1308,154 +5985,276 @@ const App: FC = () => {
                     fastModeTools.push({ googleSearch: {} });
                 }
 
-                const finalResponse = await ai.models.generateContent({
+                const finalResponse = await streamContent({
                     model: modelName,
                     contents: [...history, promptWithContext],
-                    config: { temperature: synthesizerTemp, ...(fastModeTools.length > 0 && {tools: fastModeTools}) }
-                });
+                    config: { temperature: synthesizerTemp, abortSignal, ...(conversationInstructions?.trim() && { systemInstruction: withInstructions() }), ...(fastModeTools.length > 0 && {tools: fastModeTools}) }
+                }, "Resposta rápida");
                 finalResponseText = finalResponse.text;
-                toolOutputs = parseToolOutputs(finalResponse);
+                toolOutputs = parseToolOutputs(finalResponse.parts);
 
-                if (finalResponse.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-                    sources = finalResponse.candidates[0].groundingMetadata.groundingChunks
-                        .filter(chunk => chunk.web)
-                        .map(chunk => ({ uri: chunk.web.uri, title: chunk.web.title }));
-                }
+                sources = getWebSources(finalResponse.groundingMetadata);
+                const citations = getCitationsFromSupports(finalResponseText, finalResponse.groundingMetadata, sources);
 
                  const modelMessage: Message = {
+                    id: createId(),
                     role: 'model',
                     parts: [{ text: finalResponseText }],
                     sources,
-                    toolOutputs
+                    ...(citations.length > 0 && { citations }),
+                    toolOutputs,
+                    generationDetails,
+                    usage: [...runUsage],
+                    createdAt: Date.now(),
+                    researchMode,
                 };
+                finalMessage = modelMessage;
                 updateTaskStatus(0, 'completed');
-                updateConversationMessages(currentConversationId, current => [...current, modelMessage]);
+                replaceStreamingMessage(currentConversationId, modelMessage);
 
             } else { // Balanced or Deep
                 let taskIndex = 0;
                 await runTask(() => new Promise(resolve => setTimeout(resolve, 100)), taskIndex);
                 taskIndex++;
 
-                if (researchMode === 'web' || researchMode === 'deep') {
+                if (rerun) {
+                    webContext = rerun.message.generationDetails?.researchContext ?? '';
+                    sources = rerun.message.sources ?? [];
+                    if (rerun.message.generationDetails?.research) generationDetails.research = rerun.message.generationDetails.research;
+                } else if (researchMode === 'web') {
                     const queryForSearch = confirmedSearchQuery || finalInputWithContext;
-                    const searchResponse = await runTask(() => ai.models.generateContent({
+                    if (confirmedSearchQuery) generationDetails.searchQuery = confirmedSearchQuery;
+                    const searchResponse = await runTask(() => generate({
                         model: modelName,
                         contents: queryForSearch,
-                        config: { tools: [{ googleSearch: {} }] }
-                    }), taskIndex);
+                        config: { tools: [{ googleSearch: {} }], abortSignal }
+                    }, "Pesquisa na web"), taskIndex);
                     
                     webContext = `\n\n--- Web Search Results ---\n${searchResponse.text}\n--- End Web Search Results ---`;
-                    if (searchResponse.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-                        sources = searchResponse.candidates[0].groundingMetadata.groundingChunks
-                            .filter(chunk => chunk.web)
-                            .map(chunk => ({ uri: chunk.web.uri, title: chunk.web.title }));
-                    }
+                    sources = getWebSources(searchResponse.groundingMetadata);
                     taskIndex++;
+                } else if (researchMode === 'deep') {
+                    const [planIndex, searchIndex, gapIndex] = [taskIndex, taskIndex + 1, taskIndex + 2];
+                    const findings: ResearchFinding[] = [];
+                    generationDetails.research = findings;
+                    let queries = await runTask(() => planResearchQueries(generate, userInput, researchSettings, abortSignal), planIndex);
+
+                    for (let hop = 1; hop <= researchSettings.maxHops && queries.length > 0; hop++) {
+                        // A failed sub-query only loses its own findings, as long as one of the round's searches succeeded.
+                        const results = await runTask(() => Promise.allSettled(
+                            queries.map(query => searchResearchQuery(generate, modelName, query, hop, abortSignal))
+                        ), searchIndex);
+                        abortSignal.throwIfAborted();
+                        const answered = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+                        if (answered.length === 0) {
+                            throw (results[0] as PromiseRejectedResult).reason;
+                        }
+                        findings.push(...answered);
+                        if (hop < researchSettings.maxHops) {
+                            queries = await runTask(() => findResearchGaps(generate, userInput, findings, researchSettings, abortSignal), gapIndex);
+                        }
+                    }
+
+                    const research = buildResearchDossier(findings);
+                    webContext = research.dossier;
+                    sources = research.sources;
+                    taskIndex += 3;
                 }
+                generationDetails.pipeline = pipelineStages;
+                if (webContext) generationDetails.researchContext = webContext;
                 
                 const promptWithContext: Content = {
                     role: 'user',
                     parts: [{ text: finalInputWithContext + webContext }, ...attachedFileParts]
                 };
                 
-                const numAgents = generationDepth === 'deep' ? 4 : 2;
-
-                const initialResponses = await runTask(() => Promise.all(
-                    Array.from({ length: numAgents }).map((_, i) =>
-                        ai.models.generateContent({
-                            model: modelName,
-                            contents: [...history, promptWithContext],
-                            config: { systemInstruction: INITIAL_SYSTEM_INSTRUCTION, temperature: initialTemps[i] }
-                        })
-                    )
-                ), taskIndex);
-                generationDetails.initial = initialResponses.map(r => r.text);
-                taskIndex++;
-
-                const refinedResponses = await runTask(() => Promise.all(
-                    initialResponses.map(response =>
-                        ai.models.generateContent({
-                            model: modelName,
-                            contents: [ ...history, { role: 'user', parts: [ ...promptWithContext.parts, { text: "\n\n--- Initial Response to Refine ---\n" + response.text } ] } ],
-                            config: { systemInstruction: REFINEMENT_SYSTEM_INSTRUCTION, temperature: refinementTemp }
-                        })
-                    )
-                ), taskIndex);
-                generationDetails.refined = refinedResponses.map(r => r.text);
-                taskIndex++;
-                
-                const synthesizerContent: Content = {
-                    role: 'user',
-                    parts: [
-                        ...promptWithContext.parts,
-                        ...refinedResponses.map((res, i) => ({ text: `\n\n--- Refined Response ${i + 1} ---\n${res.text}` }))
-                    ]
-                };
-
-                const synthesizerConfig = {
-                    systemInstruction: SYNTHESIZER_SYSTEM_INSTRUCTION,
-                    temperature: synthesizerTemp,
-                    ...(codeInterpreterTool.length > 0 && {tools: codeInterpreterTool})
-                };
-                
-                let finalResponse = await runTask(() => ai.models.generateContent({
-                    model: modelName,
-                    contents: [...history, synthesizerContent],
-                    config: synthesizerConfig
-                }), taskIndex);
+                const finalSynthesizer = getFinalSynthesizer(pipelineStages);
+                const stageOutputs: Record<string, string[]> = {};
+                const synthesisRequests: Record<string, LLMRequest> = {};
+                let finalResponse: LLMResponse | null = null;
+                const excludedOf = (stageId: string) => rerun?.request.excluded[stageId] ?? [];
+                const exclusionOf = (stageId: string) => excludedOf(stageId).length > 0 ? { excluded: excludedOf(stageId) } : {};
+                const buildSynthesisRequest = (stage: PipelineStage, drafts: string[], systemInstruction: string): LLMRequest => ({
+                    model: stage.model,
+                    contents: buildStageContents('synthesize', history, promptWithContext.parts, drafts),
+                    config: { systemInstruction: withInstructions(systemInstruction), temperature: stage.temperature, abortSignal, ...(codeInterpreterTool.length > 0 && { tools: codeInterpreterTool }) }
+                });
 
-                finalResponseText = finalResponse.text;
+                for (const stage of pipelineStages) {
+                    const storedRun = storedRuns.find(run => run.stageId === stage.id);
+                    // Re-running a single agent keeps the stage's other stored outputs,
+                    // so it has to see the same drafts the stored run saw.
+                    const singleAgent = rerun?.request.stageId === stage.id && storedRun ? rerun.request.agentIndex : undefined;
+                    const drafts = stage.inputs.flatMap(id => (stageOutputs[id] ?? []).filter((_, i) => singleAgent !== undefined || !excludedOf(id).includes(i)));
+                    const stagePersona = resolveStagePersona(stage, 0, personas);
+                    if (!stagesToRun.includes(stage) && storedRun) {
+                        const { excluded, ...reusedRun } = storedRun;
+                        generationDetails.stages!.push({ ...reusedRun, ...exclusionOf(stage.id) });
+                        stageOutputs[stage.id] = storedRun.outputs;
+                        if (stage.role === 'synthesize') synthesisRequests[stage.id] = buildSynthesisRequest(stage, drafts, stagePersona.instruction);
+                        continue;
+                    }
+                    const stageRun: StageRun = { stageId: stage.id, role: stage.role, label: stage.label, outputs: [] };
+                    generationDetails.stages!.push(stageRun);
+                    const stageConfig = { systemInstruction: withInstructions(stagePersona.instruction), temperature: stage.temperature, abortSignal };
+
+                    if (stage.role === 'brainstorm' || stage.role === 'refine') {
+                        const calls = stage.role === 'brainstorm'
+                            ? Array.from({ length: stage.count }, (_, i) => ({
+                                contents: buildStageContents('brainstorm', history, promptWithContext.parts, drafts),
+                                temperature: stage.agentTemperatures?.[i] ?? stage.temperature,
+                                model: stage.agentModels?.[i] || stage.model,
+                                persona: resolveStagePersona(stage, i, personas),
+                            }))
+                            : drafts.map(draft => ({
+                                contents: buildStageContents('refine', history, promptWithContext.parts, [draft]),
+                                temperature: stage.temperature,
+                                model: stage.model,
+                                persona: stagePersona,
+                            }));
+                        stageRun.agentModels = calls.map(call => call.model);
+                        if (calls.some(call => call.persona.name)) {
+                            stageRun.agentPersonas = calls.map(call => call.persona.name ?? '');
+                        }
+                        if (singleAgent !== undefined) {
+                            // Keeps the stored run's compact layout, so its agent numbers and exclusions still line up.
+                            const agentNumbers = storedRun!.agentNumbers ?? storedRun!.outputs.map((_, i) => i + 1);
+                            stageRun.outputs = [...storedRun!.outputs];
+                            stageRun.agentModels = agentNumbers.map(n => stageRun.agentModels![n - 1]);
+                            if (stageRun.agentPersonas) stageRun.agentPersonas = agentNumbers.map(n => stageRun.agentPersonas![n - 1]);
+                            if (storedRun!.agentNumbers) stageRun.agentNumbers = storedRun!.agentNumbers;
+                            Object.assign(stageRun, exclusionOf(stage.id));
+                        }
+                        const agentsToRun = singleAgent !== undefined
+                            ? [(storedRun!.agentNumbers?.[singleAgent] ?? singleAgent + 1) - 1]
+                            : calls.map((_, i) => i);
+                        // Each draft is recorded as soon as it arrives so a cancelled run keeps what was finished.
+                        const results = await runTask(() => Promise.allSettled(agentsToRun.map(i => {
+                            const call = calls[i];
+                            const label = `${stage.label} · Agente ${i + 1}`;
+                            const request: LLMRequest = {
+                                model: call.model,
+                                contents: call.contents,
+                                config: { ...stageConfig, systemInstruction: withInstructions(call.persona.instruction), temperature: call.temperature }
+                            };
+                            return traceCall(label, request, () => provider.generate(request)).then(response => {
+                                trackUsage(label, call.model, response);
+                                stageRun.outputs[singleAgent ?? i] = response.text;
+                                return response.text;
+                            }, error => {
+                                const entry = [...trace].reverse().find(e => e.label === label);
+                                (stageRun.failures ??= []).push({ agent: i + 1, error: describeError(error), attempts: entry?.attempts ?? 1 });
+                                throw error;
+                            });
+                        })), taskIndex);
+                        abortSignal.throwIfAborted();
 
-                if (isSelfCorrectionEnabled) {
-                    taskIndex++; // Move to the "Revisão Crítica" step
-                    const critiqueResponse = await runTask(async () => {
-                        const critiqueContent: Content = {
-                            role: 'user',
-                            parts: [ ...promptWithContext.parts, { text: "\n\n--- Proposed Final Answer to Critique ---\n" + finalResponse.text } ]
-                        };
-                        return ai.models.generateContent({
-                            model: 'gemini-2.5-flash',
-                            contents: [critiqueContent],
-                            config: { systemInstruction: CRITIC_SYSTEM_INSTRUCTION, temperature: 0.1 }
-                        });
-                    }, taskIndex);
-            
-                    if (critiqueResponse.text.trim().toUpperCase() !== 'PERFECT') {
-                        const secondSynthesizerContent: Content = {
-                            role: 'user',
-                            parts: [
-                                ...synthesizerContent.parts,
-                                { text: "\n\n--- Critique of Previous Attempt ---\n" + critiqueResponse.text },
-                                { text: "\n\n--- Your Task ---\nGenerate a new, superior final response that addresses the critique." }
-                            ]
-                        };
-                        const improvedFinalResponse = await ai.models.generateContent({
-                            model: modelName,
-                            contents: [...history, secondSynthesizerContent],
-                            config: synthesizerConfig
-                        });
-                        finalResponseText = improvedFinalResponse.text;
-                        finalResponse = improvedFinalResponse;
+                        if (singleAgent !== undefined && results[0].status === 'rejected') {
+                            throw results[0].reason;
+                        }
+                        const survivors = stageRun.outputs.filter(output => output !== undefined);
+                        const required = Math.min(retrySettings.minSuccessfulAgents, calls.length);
+                        if (survivors.length < required) {
+                            throw new AgentQuorumError(stage.label, survivors.length, calls.length, required);
+                        }
+                        stageOutputs[stage.id] = survivors;
+                    } else if (stage.role === 'synthesize') {
+                        if (stagePersona.name) stageRun.agentPersonas = [stagePersona.name];
+                        stageRun.agentModels = [stage.model];
+                        const request = buildSynthesisRequest(stage, drafts, stagePersona.instruction);
+                        synthesisRequests[stage.id] = request;
+                        const isFinal = stage === finalSynthesizer;
+                        const response = await runTask(() => isFinal
+                            ? streamContent(request, stage.label)
+                            : generate(request, stage.label), taskIndex);
+                        stageRun.outputs = [response.text];
+                        stageOutputs[stage.id] = [response.text];
+                        if (isFinal) finalResponse = response;
+                    } else { // critic
+                        const targetId = stage.inputs[0];
+                        if (stagePersona.name) stageRun.agentPersonas = [stagePersona.name];
+                        stageRun.agentModels = [stage.model];
+                        await runTask(async () => {
+                            const critiqueResponse = await generate({
+                                model: stage.model,
+                                contents: buildStageContents('critic', history, promptWithContext.parts, drafts),
+                                config: stageConfig
+                            }, stage.label);
+                            stageRun.outputs = [critiqueResponse.text];
+                            if (critiqueResponse.text.trim().toUpperCase() === 'PERFECT') return;
+
+                            const rewriteRequest: LLMRequest = {
+                                ...synthesisRequests[targetId],
+                                contents: buildRewriteContents(synthesisRequests[targetId].contents as Content[], critiqueResponse.text)
+                            };
+                            const isFinal = targetId === finalSynthesizer?.id;
+                            // The rewrite streams over the first synthesis, which stays visible until its first token arrives.
+                            const rewriteLabel = `${stage.label} · reescrita`;
+                            const improvedResponse = isFinal
+                                ? await streamContent(rewriteRequest, rewriteLabel)
+                                : await generate(rewriteRequest, rewriteLabel);
+                            stageOutputs[targetId] = [improvedResponse.text];
+                            if (isFinal) finalResponse = improvedResponse;
+                        }, taskIndex);
                     }
+                    taskIndex++;
                 }
 
-                toolOutputs = parseToolOutputs(finalResponse);
+                if (!finalResponse) {
+                    throw new Error("Pipeline finished without a final synthesis.");
+                }
+                finalResponseText = finalResponse.text;
+                toolOutputs = parseToolOutputs(finalResponse.parts);
+
+                let citations: CitationSpan[] = [];
+                if (runResearchMode !== 'offline') {
+                    // Citations are an extra; an attribution failure still delivers the answer without them.
+                    citations = await runTask(() => attributeCitations(generate, finalResponseText, sources, webContext, abortSignal).catch(error => {
+                        if (abortSignal.aborted) throw error;
+                        console.error("Failed to attribute citations:", error);
+                        return [];
+                    }), taskIndex);
+                    taskIndex++;
+                }
 
                 const modelMessage: Message = {
+                    id: createId(),
                     role: 'model',
                     parts: [{ text: finalResponseText }],
                     sources,
+                    ...(citations.length > 0 && { citations }),
                     toolOutputs,
-                    generationDetails
+                    generationDetails: withStageAliases(generationDetails),
+                    usage: [...runUsage],
+                    createdAt: Date.now(),
+                    researchMode: runResearchMode,
                 };
+                finalMessage = modelMessage;
                 
-                updateTaskStatus(taskIndex, 'completed');
-                updateConversationMessages(currentConversationId, current => [...current, modelMessage]);
+                updateTaskStatus(taskIndex - 1, 'completed');
+                replaceStreamingMessage(currentConversationId, modelMessage);
             }
         } catch (error) {
+            finalResponseText = ''; // Ensure no memory is created on error
+            if (abortSignal.aborted) {
+                const partialDetails = withStageAliases(generationDetails);
+                replaceStreamingMessage(currentConversationId, {
+                    id: createId(),
+                    role: 'model',
+                    parts: [{ text: buildCancelledText(reachedStage, streamedText) }],
+                    isCancelled: true,
+                    createdAt: Date.now(),
+                    researchMode: runResearchMode,
+                    ...(trace.length > 0 && { generationDetails: partialDetails }),
+                    ...(runUsage.length > 0 && { usage: [...runUsage] }),
+                });
+                return;
+            }
             console.error("Error during generation:", error);
             let friendlyMessage = "Desculpe, algo deu errado ao gerar a resposta.";
-            if (error instanceof Error) {
+            if (error instanceof AgentQuorumError) {
+                friendlyMessage = "Agentes demais falharam em uma das etapas, mesmo após novas tentativas. Tente novamente em instantes ou reduza o mínimo de agentes nas configurações.";
+            } else if (error instanceof Error) {
                 if (error.message.includes('API key not valid')) {
                     friendlyMessage = "Há um problema com a configuração da API. Por favor, contate o administrador.";
                 } else if (error.message.toLowerCase().includes('deadline')) {
@@ -1464,22 +6263,31 @@ const App: FC = () => {
                      friendlyMessage = "A resposta foi bloqueada devido às configurações de segurança. Por favor, modifique sua pergunta e tente novamente.";
                 }
             }
-            finalResponseText = ''; // Ensure no memory is created on error
             const errorMessage: Message = { 
+                id: createId(),
                 role: 'model', 
                 parts: [{ text: friendlyMessage }],
-                isError: true 
+                isError: true,
+                createdAt: Date.now(),
+                researchMode: runResearchMode,
+                ...(runUsage.length > 0 && { usage: [...runUsage] }),
+                // Keeps the failed calls visible in the inspector.
+                ...(trace.length > 0 && { generationDetails: withStageAliases(generationDetails) }),
             };
             if (currentConversationId) {
-                updateConversationMessages(currentConversationId, current => [...current, errorMessage]);
+                replaceStreamingMessage(currentConversationId, errorMessage);
             }
         } finally {
+            runEnded = true;
             setIsLoading(false);
+            if (abortControllerRef.current === abortController) {
+                abortControllerRef.current = null;
+            }
             if (finalResponseText) {
-                if (isLongTermMemoryEnabled) {
-                     generateAndStoreMemory(userInput, finalResponseText);
-                }
-                generateProactiveSuggestions(userInput, finalResponseText);
+                Promise.all([
+                    isLongTermMemoryEnabled ? generateAndStoreMemory(userInput, finalResponseText, currentConversationId) : [],
+                    generateProactiveSuggestions(userInput, finalResponseText),
+                ]).then(entries => attachUsage(currentConversationId, entries.flat(), finalMessage));
             }
         }
     };
@@ -1494,32 +6302,36 @@ const App: FC = () => {
             return;
         }
         
-        if (!ai || !currentConversationId || isLoading) {
+        if (!provider || !currentConversationId || isLoading) {
             return;
         }
 
-        const userInput = inputToUse;
+        const currentConversation = conversations.find(c => c.id === currentConversationId);
+        if (!currentConversation) return;
+
+        setInput('');
+        setAttachedFiles([]);
+        localStorage.removeItem(`draft-input-${currentConversationId}`);
+
+        await submitPrompt(inputToUse, attachedFiles.map(f => f.content), attachedFiles.map(f => f.file), currentConversation.activeLeafId);
+    };
+
+    // Asks a question as a child of parentId: the active leaf for a new turn, or an earlier message when a question is edited.
+    const submitPrompt = async (userInput: string, attachedFileParts: Part[], files: File[], parentId: string | undefined) => {
+        const currentConversation = conversations.find(c => c.id === currentConversationId);
+        if (!provider || !currentConversationId || !currentConversation) return;
+
         setProactiveSuggestions([]);
         
         const userMessage: Message = {
+            id: createId(),
             role: 'user',
-            parts: [{ text: userInput }, ...attachedFiles.map(f => f.content)],
-            attachedFiles: attachedFiles.map(f => f.file),
+            parts: [{ text: userInput }, ...attachedFileParts],
+            attachedFiles: files,
+            createdAt: Date.now(),
         };
-        
-        const currentConversation = conversations.find(c => c.id === currentConversationId);
-        if (!currentConversation) return;
 
-        const MAX_HISTORY_MESSAGES = 10;
-        const conversationHistory = currentConversation.messages.slice(-MAX_HISTORY_MESSAGES);
-        const history: Content[] = conversationHistory
-            .map(msg => ({
-                role: msg.role,
-                parts: msg.parts.filter((p): p is { text: string } => 
-                    'text' in p && typeof p.text === 'string' && p.text.trim() !== ''
-                ),
-            }))
-            .filter(msg => msg.parts.length > 0);
+        const previousMessages = getPathTo(currentConversation, parentId);
         
         if (currentConversation.messages.length === 0) {
             const newTitle = userInput.trim().substring(0, 40) + (userInput.trim().length > 40 ? '...' : '');
@@ -1528,24 +6340,21 @@ const App: FC = () => {
             );
         }
 
-        updateConversationMessages(currentConversationId, current => [...current, userMessage]);
-        
-        const attachedFileParts = attachedFiles.map(f => f.content);
-
-        setInput('');
-        setAttachedFiles([]);
-        localStorage.removeItem(`draft-input-${currentConversationId}`);
+        updateConversation(currentConversationId, c => appendMessage({ ...c, activeLeafId: parentId }, userMessage));
 
         setIsLoading(true);
         setTimer(0);
         setIsRefinePanelOpen(false);
 
-        if (researchMode === 'web' && generationDepth !== 'fast') {
+        if (researchMode === 'web' && !isFastMode) {
+            const abortController = new AbortController();
+            abortControllerRef.current = abortController;
             try {
-                const response = await ai.models.generateContent({
+                const response = await provider.generate({
                     model: 'gemini-2.5-flash',
                     contents: userInput,
                     config: {
+                        abortSignal: abortController.signal,
                         systemInstruction: SEARCH_REFINER_SYSTEM_INSTRUCTION,
                         responseMimeType: "application/json",
                         responseSchema: {
@@ -1558,27 +6367,44 @@ const App: FC = () => {
                         }
                     }
                 });
+                attachUsage(currentConversationId, recordUsage("Refinamento da pesquisa", 'gemini-2.5-flash', response.usage));
                 
-                const parsed = JSON.parse(response.text);
+                const parsed = parseJsonResponse<Pick<SearchConfirmationData, 'searchQuery' | 'questions'>>(response.text);
                 
                 setSearchConfirmationData({
                     originalUserInput: userInput,
                     searchQuery: parsed.searchQuery,
                     questions: parsed.questions,
                     attachedFileParts: attachedFileParts,
-                    history: history
+                    previousMessages: previousMessages
                 });
                 setShowSearchConfirmation(true);
                 return;
                 
             } catch(error) {
+                if (abortController.signal.aborted) {
+                    const cancelledMessage: Message = {
+                        id: createId(),
+                        role: 'model',
+                        parts: [{ text: buildCancelledText("Refinando consulta de pesquisa", '') }],
+                        isCancelled: true,
+                        createdAt: Date.now(),
+                        researchMode,
+                    };
+                    updateConversation(currentConversationId, c => appendMessage(c, cancelledMessage));
+                    setIsLoading(false);
+                    return;
+                }
                 console.error("Error during search refinement:", error);
                 const errorMessage: Message = { 
+                    id: createId(),
                     role: 'model', 
                     parts: [{ text: "Desculpe, houve um erro ao tentar refinar sua pesquisa. Por favor, tente novamente." }],
-                    isError: true 
+                    isError: true,
+                    createdAt: Date.now(),
+                    researchMode,
                 };
-                updateConversationMessages(currentConversationId, current => [...current, errorMessage]);
+                updateConversation(currentConversationId, c => appendMessage(c, errorMessage));
                 setIsLoading(false);
                 return;
             }
@@ -1587,12 +6413,29 @@ const App: FC = () => {
         executeGeneration({
             userInput: userInput,
             attachedFileParts: attachedFileParts,
-            history: history,
+            previousMessages: previousMessages,
             confirmedSearchQuery: null
         });
     };
     
-    const currentMessages = conversations.find(c => c.id === currentConversationId)?.messages ?? [];
+    const currentConversation = conversations.find(c => c.id === currentConversationId);
+    const currentMessages = currentConversation ? getActivePath(currentConversation) : [];
+    const contextFiles = getContextFiles(currentMessages, currentConversation?.unpinnedFiles);
+    const siblingsOf = (message: Message) => currentConversation ? getSiblings(currentConversation, message) : [message];
+    const conversationUsage = summarizeUsage(currentConversation ? getConversationUsage(currentConversation) : [], priceTable);
+    const todayUsage = summarizeLedgerDay(usageLedger[getLocalDayKey()], priceTable);
+    const recentUsageDays = Object.keys(usageLedger).sort().reverse().slice(0, 7);
+    const isSearching = !!searchQuery.trim() || hasActiveFilters(searchFilters);
+    const searchHits = useMemo(() => {
+        if (!isSearching) return [];
+        const searchable = conversations.filter(c => !c.deletedAt);
+        return searchConversations(searchable, buildSearchIndex(searchable), searchQuery, searchFilters);
+    }, [conversations, isSearching, searchQuery, searchFilters]);
+    const visibleConversations = conversations.filter(c => isInSidebarView(c, sidebarView));
+    const conversationGroups: ConversationGroup[] = sidebarView === 'trash'
+        ? [{ key: 'trash', label: '', conversations: [...visibleConversations].sort((a, b) => b.deletedAt! - a.deletedAt!) }].filter(group => group.conversations.length > 0)
+        : groupConversations(visibleConversations, sidebarGrouping);
+    const organizeTargets = conversations.filter(c => organizeConversationIds?.includes(c.id));
 
     return (
         <div className="app-layout">
@@ -1603,62 +6446,267 @@ const App: FC = () => {
                         Nova Conversa
                     </button>
                 </div>
+                <div className="sidebar-search">
+                    <div className="sidebar-search-box">
+                        <IconSearch />
+                        <input
+                            type="search"
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            placeholder="Buscar nas conversas"
+                            aria-label="Buscar nas conversas"
+                        />
+                        <button
+                            className={`search-filter-toggle ${showSearchFilters || hasActiveFilters(searchFilters) ? 'active' : ''}`}
+                            onClick={() => setShowSearchFilters(prev => !prev)}
+                            aria-label="Filtros de busca"
+                            aria-expanded={showSearchFilters}
+                        >
+                            <IconFilter />
+                        </button>
+                    </div>
+                    {showSearchFilters && (
+                        <div className="search-filters">
+                            <label>
+                                De
+                                <input type="date" value={searchFilters.from} max={searchFilters.to || undefined} onChange={(e) => setSearchFilters(prev => ({ ...prev, from: e.target.value }))} />
+                            </label>
+                            <label>
+                                Até
+                                <input type="date" value={searchFilters.to} min={searchFilters.from || undefined} onChange={(e) => setSearchFilters(prev => ({ ...prev, to: e.target.value }))} />
+                            </label>
+                            <select
+                                className="settings-select"
+                                value={searchFilters.researchMode}
+                                onChange={(e) => setSearchFilters(prev => ({ ...prev, researchMode: e.target.value as SearchFilters['researchMode'] }))}
+                                aria-label="Modo de pesquisa"
+                            >
+                                <option value="any">Qualquer modo de pesquisa</option>
+                                <option value="offline">Offline</option>
+                                <option value="web">Web</option>
+                                <option value="deep">Deep</option>
+                            </select>
+                            <label className="search-filter-checkbox">
+                                <input type="checkbox" checked={searchFilters.errorsOnly} onChange={(e) => setSearchFilters(prev => ({ ...prev, errorsOnly: e.target.checked }))} />
+                                Somente mensagens de erro
+                            </label>
+                            {hasActiveFilters(searchFilters) && (
+                                <button className="refine-action-button" onClick={() => setSearchFilters(DEFAULT_SEARCH_FILTERS)}>Limpar filtros</button>
+                            )}
+                        </div>
+                    )}
+                </div>
+                {!isSearching && (
+                    <div className="sidebar-toolbar">
+                        <select
+                            className="settings-select"
+                            value={sidebarView}
+                            onChange={(e) => { setSidebarView(e.target.value as SidebarView); finishBulkAction(); }}
+                            aria-label="Visualização"
+                        >
+                            {(Object.keys(SIDEBAR_VIEW_LABELS) as SidebarView[]).map(view => (
+                                <option key={view} value={view}>{SIDEBAR_VIEW_LABELS[view]} ({conversations.filter(c => isInSidebarView(c, view)).length})</option>
+                            ))}
+                        </select>
+                        <select
+                            className="settings-select"
+                            value={sidebarGrouping}
+                            onChange={(e) => setSidebarGrouping(e.target.value as SidebarGrouping)}
+                            disabled={sidebarView === 'trash'}
+                            aria-label="Agrupar por"
+                        >
+                            <option value="none">Sem grupos</option>
+                            <option value="folder">Por pasta</option>
+                            <option value="tag">Por tag</option>
+                        </select>
+                        <button
+                            className={`search-filter-toggle ${isSelectionMode ? 'active' : ''}`}
+                            onClick={() => isSelectionMode ? finishBulkAction() : setIsSelectionMode(true)}
+                            aria-label="Selecionar conversas"
+                            aria-pressed={isSelectionMode}
+                        >
+                            <IconCheck />
+                        </button>
+                    </div>
+                )}
+                {!isSearching && isSelectionMode && (
+                    <div className="bulk-actions">
+                        <div className="bulk-actions-header">
+                            <span>{selectedConversationIds.length} selecionada(s)</span>
+                            <button
+                                className="bulk-select-all"
+                                onClick={() => setSelectedConversationIds(selectedConversationIds.length === visibleConversations.length ? [] : visibleConversations.map(c => c.id))}
+                            >
+                                {selectedConversationIds.length === visibleConversations.length ? "Nenhuma" : "Todas"}
+                            </button>
+                        </div>
+                        <div className="bulk-actions-buttons">
+                            {sidebarView === 'trash' ? (
+                                <>
+                                    <button className="refine-action-button" disabled={selectedConversationIds.length === 0} onClick={() => handleRestoreConversations(selectedConversationIds)}>Restaurar</button>
+                                    <button className="refine-action-button danger" disabled={selectedConversationIds.length === 0} onClick={() => handleDeleteForever(selectedConversationIds)}>Excluir</button>
+                                </>
+                            ) : (
+                                <>
+                                    <button className="refine-action-button" disabled={selectedConversationIds.length === 0} onClick={() => handleTogglePinned(selectedConversationIds)}>Fixar</button>
+                                    <button className="refine-action-button" disabled={selectedConversationIds.length === 0} onClick={() => setOrganizeConversationIds(selectedConversationIds)}>Pasta e tags</button>
+                                    <button className="refine-action-button" disabled={selectedConversationIds.length === 0} onClick={() => handleSetArchived(selectedConversationIds, sidebarView === 'active')}>
+                                        {sidebarView === 'active' ? "Arquivar" : "Desarquivar"}
+                                    </button>
+                                    <button className="refine-action-button danger" disabled={selectedConversationIds.length === 0} onClick={() => handleMoveToTrash(selectedConversationIds)}>Lixeira</button>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
                 <nav className="conversation-history">
-                    <ul className="conversation-list">
-                        {conversations.map(convo => (
-                             <li key={convo.id} className={`conversation-list-item ${currentConversationId === convo.id ? 'active' : ''}`}>
-                                {editingConversationId === convo.id ? (
-                                    <div className="title-editor">
-                                        <IconMessageSquare />
-                                        <input
-                                            type="text"
-                                            value={editingTitle}
-                                            onChange={handleTitleChange}
-                                            onKeyDown={(e) => handleTitleKeyDown(e, convo.id)}
-                                            onBlur={() => handleRenameConversation(convo.id, editingTitle)}
-                                            autoFocus
-                                            onFocus={(e) => e.target.select()}
-                                            className="title-edit-input"
-                                        />
-                                    </div>
-                                ) : (
-                                    <>
-                                        <button
-                                            className="conversation-item"
-                                            onClick={() => handleSelectConversation(convo.id)}
-                                        >
-                                            <IconMessageSquare />
-                                            <span className="conversation-title">{convo.title}</span>
-                                        </button>
-                                        {currentConversationId === convo.id && (
-                                            <button
-                                                className="rename-button"
-                                                onClick={() => handleStartEditing(convo)}
-                                                aria-label="Renomear conversa"
-                                            >
-                                                <IconEdit />
-                                            </button>
-                                        )}
-                                    </>
-                                )}
-                            </li>
-                        ))}
-                    </ul>
+                    {isSearching ? (
+                        <SearchResultsList hits={searchHits} onSelect={handleSelectSearchHit} />
+                    ) : (
+                        <>
+                            {sidebarView === 'trash' && visibleConversations.length > 0 && (
+                                <p className="sidebar-hint">Conversas na lixeira são excluídas definitivamente após 30 dias.</p>
+                            )}
+                            {conversationGroups.length === 0 && (
+                                <p className="search-empty">{sidebarView === 'trash' ? "A lixeira está vazia." : sidebarView === 'archived' ? "Nenhuma conversa arquivada." : "Nenhuma conversa."}</p>
+                            )}
+                            {conversationGroups.map(group => (
+                                <div key={group.key} className="conversation-group">
+                                    {group.label && <h4 className="conversation-group-title">{group.label}</h4>}
+                                    <ul className="conversation-list">
+                                        {group.conversations.map(convo => (
+                                            <li key={convo.id} className={`conversation-list-item ${currentConversationId === convo.id ? 'active' : ''}`}>
+                                                {editingConversationId === convo.id ? (
+                                                    <div className="title-editor">
+                                                        <IconMessageSquare />
+                                                        <input
+                                                            type="text"
+                                                            value={editingTitle}
+                                                            onChange={handleTitleChange}
+                                                            onKeyDown={(e) => handleTitleKeyDown(e, convo.id)}
+                                                            onBlur={() => handleRenameConversation(convo.id, editingTitle)}
+                                                            autoFocus
+                                                            onFocus={(e) => e.target.select()}
+                                                            className="title-edit-input"
+                                                        />
+                                                    </div>
+                                                ) : (
+                                                    <>
+                                                        <button
+                                                            className="conversation-item"
+                                                            onClick={() => isSelectionMode
+                                                                ? handleToggleSelected(convo.id)
+                                                                : convo.deletedAt ? setOpenMenuConversationId(`${group.key}:${convo.id}`) : handleSelectConversation(convo.id)}
+                                                            title={convo.tags?.map(tag => `#${tag}`).join(' ') || undefined}
+                                                        >
+                                                            {isSelectionMode
+                                                                ? <input type="checkbox" checked={selectedConversationIds.includes(convo.id)} readOnly tabIndex={-1} />
+                                                                : convo.pinned ? <IconPin /> : <IconMessageSquare />}
+                                                            <span className="conversation-title">{convo.title}</span>
+                                                        </button>
+                                                        {!isSelectionMode && currentConversationId === convo.id && !convo.deletedAt && (
+                                                            <button
+                                                                className="rename-button"
+                                                                onClick={() => handleStartEditing(convo)}
+                                                                aria-label="Renomear conversa"
+                                                            >
+                                                                <IconEdit />
+                                                            </button>
+                                                        )}
+                                                        {!isSelectionMode && (
+                                                            <div className="conversation-menu-anchor">
+                                                                <button
+                                                                    className="rename-button"
+                                                                    onClick={() => setOpenMenuConversationId(`${group.key}:${convo.id}`)}
+                                                                    aria-label="Mais ações"
+                                                                >
+                                                                    <IconMoreHorizontal />
+                                                                </button>
+                                                                {openMenuConversationId === `${group.key}:${convo.id}` && (
+                                                                    <ConversationActionsMenu actions={getConversationActions(convo)} onClose={() => setOpenMenuConversationId(null)} />
+                                                                )}
+                                                            </div>
+                                                        )}
+                                                    </>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </>
+                    )}
                 </nav>
+                <div className="sidebar-footer">
+                    <button className="sidebar-footer-button" onClick={() => setShowTransferModal(true)}>
+                        <IconDownload />
+                        Exportar / Importar
+                    </button>
+                </div>
             </aside>
             <main className="chat-container">
                 <MemoryManagementModal 
                     isOpen={showMemoryModal}
                     onClose={() => setShowMemoryModal(false)}
                     memories={longTermMemories}
-                    onAdd={(memory) => setLongTermMemories(prev => [memory, ...prev])}
-                    onDelete={(index) => setLongTermMemories(prev => prev.filter((_, i) => i !== index))}
-                    onClearAll={() => setLongTermMemories([])}
+                    inbox={memoryInbox}
+                    rejections={memoryRejections}
+                    conversations={conversations}
+                    onAcceptProposal={handleAcceptProposal}
+                    onRejectProposal={handleRejectProposal}
+                    onForgetRejection={(id) => setMemoryRejections(prev => prev.filter(rejection => rejection.id !== id))}
+                    onAdd={(text, category) => updateMemories(prev => [createMemoryRecord(text, { category }), ...prev])}
+                    onUpdate={(id, changes) => updateMemories(prev => prev.map(memory => memory.id === id ? { ...memory, ...changes, ...(changes.text !== undefined && changes.text !== memory.text && { embedding: undefined }) } : memory))}
+                    onDelete={(id) => setLongTermMemories(prev => prev.filter(memory => memory.id !== id))}
+                    onMerge={handleMergeMemories}
+                    onClearAll={() => setLongTermMemories(prev => prev.filter(memory => memory.pinned))}
+                />
+                <PersonaLibraryModal
+                    isOpen={showPersonaLibrary}
+                    onClose={() => setShowPersonaLibrary(false)}
+                    personas={personas}
+                    onSave={handleSavePersona}
+                    onDelete={handleDeletePersona}
+                    onImport={handleImportPersonas}
+                    onError={(message) => setNotification({ message, type: 'error' })}
+                />
+                <OrganizeConversationsModal
+                    isOpen={!!organizeConversationIds}
+                    onClose={() => setOrganizeConversationIds(null)}
+                    conversations={organizeTargets}
+                    folders={getFolders(conversations)}
+                    tags={getTags(conversations)}
+                    onApply={(update) => {
+                        updateConversationsById(organizeConversationIds ?? [], update);
+                        finishBulkAction();
+                    }}
+                />
+                <ConversationTransferModal
+                    isOpen={showTransferModal}
+                    onClose={() => setShowTransferModal(false)}
+                    conversations={conversations}
+                    currentConversation={currentConversation}
+                    onImport={handleImportConversations}
+                    onError={(message) => setNotification({ message, type: 'error' })}
+                />
+                <PipelineEditorModal
+                    isOpen={showPipelineEditor}
+                    onClose={() => setShowPipelineEditor(false)}
+                    pipelines={customPipelines}
+                    activePipelineId={activePipelineId}
+                    templatePipeline={getDefaultPipeline('deep')}
+                    personas={personas}
+                    onSave={handleSavePipeline}
+                    onDelete={handleDeletePipeline}
                 />
                  <GenerationInspectorModal
                     isOpen={isInspectorModalOpen}
                     onClose={() => setIsInspectorModalOpen(false)}
-                    details={selectedMessageDetails}
+                    message={inspectedMessage}
+                    stages={getStagesForRerun(inspectedMessage)}
+                    personas={personas}
+                    isLoading={isLoading}
+                    onRerun={request => inspectedMessage && handleRerunStage(inspectedMessage, request)}
                 />
                 <SearchConfirmationModal
                     isOpen={showSearchConfirmation}
@@ -1676,29 +6724,66 @@ const App: FC = () => {
                 )}
                 <header>
                     <h1>Gemini Heavy</h1>
+                    <div className="header-usage" title="Tokens e custo estimado pela tabela de preços">
+                        <span>Conversa: {formatTokenCount(getTotalTokens(conversationUsage.usage))} tokens · {formatCost(conversationUsage.cost)}</span>
+                        <span>Hoje: {formatTokenCount(getTotalTokens(todayUsage.usage))} tokens · {formatCost(todayUsage.cost)}</span>
+                    </div>
                 </header>
                 <div className="message-list" ref={messageListRef}>
                      {currentMessages.map((msg, index) => (
-                        <div key={index} className={`message-wrapper ${msg.role === 'user' ? 'user-wrapper' : 'model-wrapper'}`}>
+                        <div
+                            key={msg.id}
+                            data-message-id={msg.id}
+                            className={`message-wrapper ${msg.role === 'user' ? 'user-wrapper' : 'model-wrapper'} ${highlightedMessage?.conversationId === currentConversationId && highlightedMessage.messageId === msg.id ? 'message-wrapper--highlighted' : ''}`}
+                        >
                             <div className={`avatar ${msg.role === 'user' ? 'user-avatar' : 'model-avatar'}`}>
                                 {msg.role === 'user' ? <span>U</span> : <IconBot />}
                             </div>
                             <div className="message-content-wrapper">
-                                <div className={`message ${msg.role} ${msg.isError ? 'message--error' : ''}`}>
+                                <div className={`message ${msg.role} ${msg.isError ? 'message--error' : ''} ${msg.isStreaming ? 'message--streaming' : ''} ${msg.isCancelled ? 'message--cancelled' : ''}`}>
                                     <div className="message-header">
-                                        {msg.role === 'model' && !msg.isError && <div className="agent-label">Agente Sintetizador</div>}
+                                        {msg.role === 'model' && !msg.isError && !msg.isCancelled && <div className="agent-label">Agente Sintetizador</div>}
+                                        {msg.isCancelled && <div className="agent-label cancelled-label"><IconStop/> Cancelado</div>}
                                         {msg.isError && <div className="agent-label error-label"><IconAlertTriangle/> Erro</div>}
                                     </div>
                                     {msg.attachedFiles && msg.attachedFiles.length > 0 && <AttachmentDisplay files={msg.attachedFiles} />}
-                                    <ReactMarkdown
-                                        remarkPlugins={[remarkGfm]}
-                                        components={{
-                                            p: ({node, ...props}) => <p style={{marginBottom: '0.75rem'}} {...props} />,
-                                            pre: ({ node, ...props }) => <CodeBlock {...props} />,
-                                        }}
-                                    >
-                                        {msg.parts.map(part => 'text' in part ? part.text : '').join('')}
-                                    </ReactMarkdown>
+                                    {editingMessageId === msg.id ? (
+                                        <div className="message-editor">
+                                            <textarea
+                                                className="settings-text-input"
+                                                value={editingMessageText}
+                                                onChange={(e) => setEditingMessageText(e.target.value)}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter' && !e.shiftKey) {
+                                                        e.preventDefault();
+                                                        handleSubmitEdit(msg);
+                                                    } else if (e.key === 'Escape') {
+                                                        setEditingMessageId(null);
+                                                    }
+                                                }}
+                                                rows={Math.min(10, editingMessageText.split('\n').length + 1)}
+                                                autoFocus
+                                            />
+                                            <div className="message-editor-actions">
+                                                <button className="refine-action-button" onClick={() => setEditingMessageId(null)}>Cancelar</button>
+                                                <button className="refine-action-button primary" onClick={() => handleSubmitEdit(msg)} disabled={!editingMessageText.trim() || isLoading}>Enviar</button>
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <ReactMarkdown
+                                            remarkPlugins={[remarkGfm]}
+                                            components={{
+                                                p: ({node, ...props}) => <p style={{marginBottom: '0.75rem'}} {...props} />,
+                                                pre: ({ node, ...props }) => <CodeBlock {...props} />,
+                                                a: ({ node, ...props }) => <MarkdownLink {...props} sources={msg.sources} />,
+                                            }}
+                                        >
+                                            {msg.citations
+                                                ? applyCitations(msg.parts.map(part => 'text' in part ? part.text : '').join(''), msg.citations)
+                                                : msg.parts.map(part => 'text' in part ? part.text : '').join('')}
+                                        </ReactMarkdown>
+                                    )}
+                                    {msg.isStreaming && <span className="streaming-cursor" aria-hidden="true" />}
                                     {msg.toolOutputs && msg.toolOutputs.length > 0 && (
                                         <div className="tool-outputs-container">
                                             {msg.toolOutputs.map((output, i) => (
@@ -1708,14 +6793,37 @@ const App: FC = () => {
                                     )}
                                     {msg.sources && <SourcesDisplay sources={msg.sources} />}
                                 </div>
-                                {msg.role === 'model' && !msg.isError && (
-                                    <div className="message-actions-toolbar">
+                                {msg.role === 'user' && editingMessageId !== msg.id && (
+                                    <div className={`message-actions-toolbar ${siblingsOf(msg).length > 1 ? 'has-branches' : ''}`}>
+                                        <BranchSwitcher
+                                            index={siblingsOf(msg).indexOf(msg)}
+                                            count={siblingsOf(msg).length}
+                                            disabled={isLoading}
+                                            onSwitch={(offset) => handleSwitchBranch(msg, offset)}
+                                        />
+                                        <button className="message-action-button" onClick={() => handleStartEditMessage(msg)} disabled={isLoading} aria-label="Editar mensagem">
+                                            <IconEdit />
+                                        </button>
+                                    </div>
+                                )}
+                                {msg.role === 'model' && !msg.isStreaming && (
+                                    <div className={`message-actions-toolbar ${siblingsOf(msg).length > 1 ? 'has-branches' : ''}`}>
+                                        <BranchSwitcher
+                                            index={siblingsOf(msg).indexOf(msg)}
+                                            count={siblingsOf(msg).length}
+                                            disabled={isLoading}
+                                            onSwitch={(offset) => handleSwitchBranch(msg, offset)}
+                                        />
                                         {msg.generationDetails && (
-                                            <button className="message-action-button" onClick={() => handleShowDetails(msg.generationDetails!)} aria-label="Ver detalhes da geração">
+                                            <button className="message-action-button" onClick={() => handleShowDetails(msg)} aria-label="Ver detalhes da geração">
                                                 <IconLayers/>
                                             </button>
                                         )}
-                                        <MessageCopyButton text={msg.parts.map(part => 'text' in part ? part.text : '').join('')} />
+                                        {!msg.isError && <MessageCopyButton text={msg.parts.map(part => 'text' in part ? part.text : '').join('')} />}
+                                        <button className="message-action-button" onClick={() => handleRegenerate(msg)} disabled={isLoading} aria-label="Gerar outra resposta">
+                                            <IconRefresh />
+                                        </button>
+                                        {msg.usage && msg.usage.length > 0 && <UsageBadge entries={msg.usage} prices={priceTable} />}
                                     </div>
                                 )}
                             </div>
@@ -1741,6 +6849,7 @@ const App: FC = () => {
                         <Notification 
                             message={notification.message}
                             type={notification.type}
+                            action={notification.action}
                             onDismiss={() => setNotification(null)}
                         />
                      )}
@@ -1759,6 +6868,29 @@ const App: FC = () => {
                                 <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
                             </button>
                             
+                            <CollapsibleSection title="Conversation" isOpen={openSettingsSections.conversation} onToggle={() => toggleSection('conversation')}>
+                                <ConversationInstructionsField
+                                    key={currentConversationId ?? ''}
+                                    value={currentConversation?.instructions ?? ''}
+                                    onSave={handleSaveConversationInstructions}
+                                />
+                            </CollapsibleSection>
+
+                            <CollapsibleSection title="Profiles" isOpen={openSettingsSections.profiles} onToggle={() => toggleSection('profiles')}>
+                                <ProfileManager
+                                    profiles={settingsProfiles}
+                                    activeProfileId={activeProfileId}
+                                    isActiveModified={isActiveProfileModified}
+                                    currentSettings={currentProfileSettings}
+                                    onApply={handleApplyProfile}
+                                    onSave={handleSaveProfile}
+                                    onUpdate={handleUpdateProfile}
+                                    onDelete={handleDeleteProfile}
+                                    onImport={handleImportProfiles}
+                                    onError={(message) => setNotification({ message, type: 'error' })}
+                                />
+                            </CollapsibleSection>
+
                             <CollapsibleSection title="Model & Research" isOpen={openSettingsSections.model} onToggle={() => toggleSection('model')}>
                                 <div className="settings-group">
                                     <h3 className="settings-group-title">Modo de Pesquisa</h3>
@@ -1767,6 +6899,24 @@ const App: FC = () => {
                                         <button className={`model-select-button ${researchMode === 'web' ? 'active' : ''}`} onClick={() => setResearchMode('web')}>Web</button>
                                         <button className={`model-select-button ${researchMode === 'deep' ? 'active' : ''}`} onClick={() => setResearchMode('deep')}>Deep</button>
                                     </div>
+                                    {researchMode === 'deep' && (
+                                        <>
+                                            <div className="temp-slider-container">
+                                                <label htmlFor="research-queries">Consultas por rodada</label>
+                                                <div className="slider-wrapper">
+                                                    <input type="range" id="research-queries" min="1" max="8" step="1" value={researchSettings.maxQueries} onChange={(e) => setResearchSettings(prev => ({ ...prev, maxQueries: parseInt(e.target.value, 10) }))} />
+                                                    <span>{researchSettings.maxQueries}</span>
+                                                </div>
+                                            </div>
+                                            <div className="temp-slider-container">
+                                                <label htmlFor="research-hops">Rodadas de pesquisa</label>
+                                                <div className="slider-wrapper">
+                                                    <input type="range" id="research-hops" min="1" max="4" step="1" value={researchSettings.maxHops} onChange={(e) => setResearchSettings(prev => ({ ...prev, maxHops: parseInt(e.target.value, 10) }))} />
+                                                    <span>{researchSettings.maxHops}</span>
+                                                </div>
+                                            </div>
+                                        </>
+                                    )}
                                 </div>
                                 <div className="settings-group">
                                     <h3 className="settings-group-title">Modelo</h3>
@@ -1787,6 +6937,56 @@ const App: FC = () => {
                                             <span className="slider round"></span>
                                         </label>
                                     </div>
+                                    <div className="settings-field">
+                                        <label htmlFor="critic-persona">Agente Crítico</label>
+                                        <div className="agent-assignment-row">
+                                            <PersonaSelect id="critic-persona" value={personaAssignments.critic} personas={personas} onChange={(critic) => setPersonaAssignments(prev => ({ ...prev, critic }))} />
+                                            <ModelSelect value={modelAssignments.critic} onChange={(critic) => setModelAssignments(prev => ({ ...prev, critic }))} inheritLabel={`Global (${MODEL_LABELS[modelName]})`} ariaLabel="Modelo do Agente Crítico" />
+                                        </div>
+                                    </div>
+                                </div>
+                                <div className="settings-group">
+                                    <h3 className="settings-group-title">Resiliência</h3>
+                                    <div className="temp-slider-container">
+                                        <label htmlFor="max-retries">Novas tentativas por chamada</label>
+                                        <div className="slider-wrapper">
+                                            <input type="range" id="max-retries" min="0" max="5" step="1" value={retrySettings.maxRetries} onChange={(e) => setRetrySettings(prev => ({ ...prev, maxRetries: parseInt(e.target.value, 10) }))} />
+                                            <span>{retrySettings.maxRetries}</span>
+                                        </div>
+                                    </div>
+                                    <div className="temp-slider-container">
+                                        <label htmlFor="min-successful-agents">Mínimo de agentes bem-sucedidos</label>
+                                        <div className="slider-wrapper">
+                                            <input type="range" id="min-successful-agents" min="1" max={MAX_STAGE_AGENTS} step="1" value={retrySettings.minSuccessfulAgents} onChange={(e) => setRetrySettings(prev => ({ ...prev, minSuccessfulAgents: parseInt(e.target.value, 10) }))} />
+                                            <span>{retrySettings.minSuccessfulAgents}</span>
+                                        </div>
+                                    </div>
+                                </div>
+                                <div className="settings-group">
+                                    <h3 className="settings-group-title">Pipeline</h3>
+                                    <div className="setting-item">
+                                        <select
+                                            className="settings-select"
+                                            value={activePipelineId ?? ''}
+                                            onChange={(e) => setActivePipelineId(e.target.value || null)}
+                                            aria-label="Pipeline ativo"
+                                        >
+                                            <option value="">Padrão (segue a profundidade)</option>
+                                            {customPipelines.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                        </select>
+                                        <button className="manage-memory-button" onClick={() => setShowPipelineEditor(true)}>
+                                            Editar
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="settings-group">
+                                    <h3 className="settings-group-title">Personas</h3>
+                                    <div className="setting-item">
+                                        <label>Biblioteca de Instruções</label>
+                                        <button className="manage-memory-button" onClick={() => setShowPersonaLibrary(true)}>
+                                            Gerenciar
+                                        </button>
+                                    </div>
                                 </div>
                                 <div className="settings-group">
                                     <h3 className="settings-group-title">Agentes Iniciais</h3>
@@ -1804,6 +7004,20 @@ const App: FC = () => {
                                                 />
                                                 <span>{temp.toFixed(1)}</span>
                                             </div>
+                                            <div className="agent-assignment-row">
+                                                <PersonaSelect
+                                                    value={personaAssignments.initial[i]}
+                                                    personas={personas}
+                                                    onChange={(personaId) => setPersonaAssignments(prev => ({ ...prev, initial: prev.initial.map((id, j) => j === i ? personaId : id) }))}
+                                                    ariaLabel={`Persona Agente Inicial ${i + 1}`}
+                                                />
+                                                <ModelSelect
+                                                    value={modelAssignments.initial[i] ?? ''}
+                                                    onChange={(model) => setModelAssignments(prev => ({ ...prev, initial: prev.initial.map((m, j) => j === i ? model : m) }))}
+                                                    inheritLabel={`Global (${MODEL_LABELS[modelName]})`}
+                                                    ariaLabel={`Modelo Agente Inicial ${i + 1}`}
+                                                />
+                                            </div>
                                         </div>
                                     ))}
                                 </div>
@@ -1815,6 +7029,10 @@ const App: FC = () => {
                                             <input type="range" id="refinement-temp" min="0" max="1" step="0.1" value={refinementTemp} onChange={(e) => setRefinementTemp(parseFloat(e.target.value))} />
                                             <span>{refinementTemp.toFixed(1)}</span>
                                         </div>
+                                        <div className="agent-assignment-row">
+                                            <PersonaSelect value={personaAssignments.refine} personas={personas} onChange={(refine) => setPersonaAssignments(prev => ({ ...prev, refine }))} ariaLabel="Persona Agente de Refinamento" />
+                                            <ModelSelect value={modelAssignments.refine} onChange={(refine) => setModelAssignments(prev => ({ ...prev, refine }))} inheritLabel={`Global (${MODEL_LABELS[modelName]})`} ariaLabel="Modelo Agente de Refinamento" />
+                                        </div>
                                     </div>
                                 </div>
                                 <div className="settings-group">
@@ -1825,6 +7043,10 @@ const App: FC = () => {
                                             <input type="range" id="synthesizer-temp" min="0" max="1" step="0.1" value={synthesizerTemp} onChange={(e) => setSynthesizerTemp(parseFloat(e.target.value))} />
                                             <span>{synthesizerTemp.toFixed(1)}</span>
                                         </div>
+                                        <div className="agent-assignment-row">
+                                            <PersonaSelect value={personaAssignments.synthesize} personas={personas} onChange={(synthesize) => setPersonaAssignments(prev => ({ ...prev, synthesize }))} ariaLabel="Persona Agente Sintetizador" />
+                                            <ModelSelect value={modelAssignments.synthesize} onChange={(synthesize) => setModelAssignments(prev => ({ ...prev, synthesize }))} inheritLabel={`Global (${MODEL_LABELS[modelName]})`} ariaLabel="Modelo Agente Sintetizador" />
+                                        </div>
                                     </div>
                                 </div>
                             </CollapsibleSection>
@@ -1842,6 +7064,104 @@ const App: FC = () => {
                                 </div>
                             </CollapsibleSection>
 
+                            <CollapsibleSection title="Provider" isOpen={openSettingsSections.provider} onToggle={() => toggleSection('provider')}>
+                                <div className="settings-group">
+                                    <h3 className="settings-group-title">Provedor de IA</h3>
+                                    <div className="model-selector-container">
+                                        <button className={`model-select-button ${providerSettings.kind === 'gemini' ? 'active' : ''}`} onClick={() => setProviderSettings(prev => ({ ...prev, kind: 'gemini' }))}>Gemini</button>
+                                        <button className={`model-select-button ${providerSettings.kind === 'openai' ? 'active' : ''}`} onClick={() => setProviderSettings(prev => ({ ...prev, kind: 'openai' }))}>OpenAI</button>
+                                        <button className={`model-select-button ${providerSettings.kind === 'mock' ? 'active' : ''}`} onClick={() => setProviderSettings(prev => ({ ...prev, kind: 'mock' }))}>Mock</button>
+                                    </div>
+                                </div>
+                                {providerSettings.kind === 'openai' && (
+                                    <div className="settings-group">
+                                        <h3 className="settings-group-title">Servidor Compatível com OpenAI</h3>
+                                        <div className="settings-field">
+                                            <label htmlFor="openai-base-url">URL Base</label>
+                                            <input id="openai-base-url" type="text" className="settings-text-input" value={providerSettings.openAIBaseUrl} onChange={(e) => setProviderSettings(prev => ({ ...prev, openAIBaseUrl: e.target.value }))} placeholder="http://localhost:11434/v1" />
+                                        </div>
+                                        <div className="settings-field">
+                                            <label htmlFor="openai-api-key">Chave de API (opcional)</label>
+                                            <input id="openai-api-key" type="password" className="settings-text-input" value={providerSettings.openAIApiKey} onChange={(e) => setProviderSettings(prev => ({ ...prev, openAIApiKey: e.target.value }))} />
+                                        </div>
+                                        <div className="settings-field">
+                                            <label htmlFor="openai-model-pro">Modelo usado no lugar do Pro</label>
+                                            <input id="openai-model-pro" type="text" className="settings-text-input" value={providerSettings.openAIModels['gemini-2.5-pro']} onChange={(e) => setProviderSettings(prev => ({ ...prev, openAIModels: { ...prev.openAIModels, 'gemini-2.5-pro': e.target.value } }))} />
+                                        </div>
+                                        <div className="settings-field">
+                                            <label htmlFor="openai-model-flash">Modelo usado no lugar do Flash</label>
+                                            <input id="openai-model-flash" type="text" className="settings-text-input" value={providerSettings.openAIModels['gemini-2.5-flash']} onChange={(e) => setProviderSettings(prev => ({ ...prev, openAIModels: { ...prev.openAIModels, 'gemini-2.5-flash': e.target.value } }))} />
+                                        </div>
+                                        <div className="settings-field">
+                                            <label htmlFor="openai-embedding-model">Modelo de embeddings (memória)</label>
+                                            <input id="openai-embedding-model" type="text" className="settings-text-input" value={providerSettings.openAIEmbeddingModel} onChange={(e) => setProviderSettings(prev => ({ ...prev, openAIEmbeddingModel: e.target.value }))} />
+                                        </div>
+                                    </div>
+                                )}
+                                {providerSettings.kind === 'mock' && (
+                                    <div className="settings-group">
+                                        <h3 className="settings-group-title">Roteiro do Mock</h3>
+                                        <MockScriptEditor
+                                            script={providerSettings.mockScript}
+                                            onChange={(mockScript) => setProviderSettings(prev => ({ ...prev, mockScript }))}
+                                            onError={(message) => setNotification({ message, type: 'error' })}
+                                        />
+                                    </div>
+                                )}
+                            </CollapsibleSection>
+
+                            <CollapsibleSection title="Usage" isOpen={openSettingsSections.usage} onToggle={() => toggleSection('usage')}>
+                                <div className="settings-group">
+                                    <h3 className="settings-group-title">Uso Diário</h3>
+                                    {recentUsageDays.length === 0 ? (
+                                        <p className="settings-hint">Nenhum uso registrado ainda.</p>
+                                    ) : (
+                                        <table className="usage-table">
+                                            <thead>
+                                                <tr><th>Dia</th><th>Entrada</th><th>Saída</th><th>Raciocínio</th><th>Custo</th></tr>
+                                            </thead>
+                                            <tbody>
+                                                {recentUsageDays.map(day => {
+                                                    const { usage, cost } = summarizeLedgerDay(usageLedger[day], priceTable);
+                                                    return (
+                                                        <tr key={day}>
+                                                            <td>{day}</td>
+                                                            <td>{formatTokenCount(usage.promptTokens)}</td>
+                                                            <td>{formatTokenCount(usage.outputTokens)}</td>
+                                                            <td>{formatTokenCount(usage.thinkingTokens)}</td>
+                                                            <td>{formatCost(cost)}</td>
+                                                        </tr>
+                                                    );
+                                                })}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                    <div className="setting-item">
+                                        <label>Histórico de Uso</label>
+                                        <button className="manage-memory-button" onClick={() => setUsageLedger({})} disabled={recentUsageDays.length === 0}>
+                                            Limpar
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="settings-group">
+                                    <h3 className="settings-group-title">Preços (US$ por 1M tokens)</h3>
+                                    {MODEL_NAMES.map(model => (
+                                        <div key={model} className="price-row">
+                                            <span>{MODEL_LABELS[model]}</span>
+                                            <label>
+                                                Entrada
+                                                <input type="number" min="0" step="0.01" className="settings-text-input" value={priceTable[model].input} onChange={(e) => setPriceTable(prev => ({ ...prev, [model]: { ...prev[model], input: parseFloat(e.target.value) || 0 } }))} />
+                                            </label>
+                                            <label>
+                                                Saída
+                                                <input type="number" min="0" step="0.01" className="settings-text-input" value={priceTable[model].output} onChange={(e) => setPriceTable(prev => ({ ...prev, [model]: { ...prev[model], output: parseFloat(e.target.value) || 0 } }))} />
+                                            </label>
+                                        </div>
+                                    ))}
+                                    <p className="settings-hint">Tokens de raciocínio são cobrados pelo preço de saída. Com provedores locais, zere os preços.</p>
+                                </div>
+                            </CollapsibleSection>
+
                             <CollapsibleSection title="Memory" isOpen={openSettingsSections.memory} onToggle={() => toggleSection('memory')}>
                                 <div className="settings-group">
                                     <h3 className="settings-group-title">Memória de Longo Prazo</h3>
@@ -1855,15 +7175,76 @@ const App: FC = () => {
                                     <div className="setting-item">
                                          <label>Gerenciar Memórias Salvas</label>
                                         <button className="manage-memory-button" onClick={() => setShowMemoryModal(true)}>
-                                            Gerenciar
+                                            Gerenciar{memoryInbox.length > 0 && ` (${memoryInbox.length} para revisar)`}
                                         </button>
                                     </div>
+                                    <div className="setting-item">
+                                        <label htmlFor="memory-review-toggle">Revisar antes de salvar</label>
+                                        <label className="switch">
+                                            <input type="checkbox" id="memory-review-toggle" checked={isMemoryReviewEnabled} onChange={() => setIsMemoryReviewEnabled(!isMemoryReviewEnabled)} />
+                                            <span className="slider round"></span>
+                                        </label>
+                                    </div>
+                                    <p className="settings-hint">Com a revisão ativa, as memórias propostas esperam sua aprovação. Credenciais, dados de saúde e financeiros são sempre bloqueados.</p>
+                                </div>
+                                <div className="settings-group">
+                                    <h3 className="settings-group-title">Recuperação de Memórias</h3>
+                                    <div className="settings-field">
+                                        <label htmlFor="memory-embedding-backend">Embeddings</label>
+                                        <select
+                                            id="memory-embedding-backend"
+                                            className="settings-select"
+                                            value={memoryRetrieval.backend}
+                                            onChange={(e) => {
+                                                const backend = e.target.value as EmbeddingBackend;
+                                                setMemoryRetrieval(prev => ({ ...prev, backend, threshold: DEFAULT_RETRIEVAL_THRESHOLDS[backend] }));
+                                            }}
+                                        >
+                                            <option value="provider">Modelo do provedor</option>
+                                            <option value="local">Local (sem chamadas de API)</option>
+                                        </select>
+                                    </div>
+                                    <div className="temp-slider-container">
+                                        <label htmlFor="memory-top-k">Memórias por pergunta (top-k)</label>
+                                        <div className="slider-wrapper">
+                                            <input type="range" id="memory-top-k" min="1" max="10" step="1" value={memoryRetrieval.topK} onChange={(e) => setMemoryRetrieval(prev => ({ ...prev, topK: parseInt(e.target.value, 10) }))} />
+                                            <span>{memoryRetrieval.topK}</span>
+                                        </div>
+                                    </div>
+                                    <div className="temp-slider-container">
+                                        <label htmlFor="memory-threshold">Similaridade mínima</label>
+                                        <div className="slider-wrapper">
+                                            <input type="range" id="memory-threshold" min="0" max="1" step="0.05" value={memoryRetrieval.threshold} onChange={(e) => setMemoryRetrieval(prev => ({ ...prev, threshold: parseFloat(e.target.value) }))} />
+                                            <span>{memoryRetrieval.threshold.toFixed(2)}</span>
+                                        </div>
+                                    </div>
+                                    <p className="settings-hint">Só as memórias mais parecidas com a pergunta entram no prompt. As fixadas entram sempre.</p>
                                 </div>
                             </CollapsibleSection>
                         </div>
                     )}
                     <form onSubmit={handleSubmit} className={`input-wrapper ${isInputAreaDragging ? 'drag-active' : ''}`}>
                          <div className="input-main">
+                             {contextFiles.length > 0 && (
+                                <div className="context-files">
+                                    <span className="context-files-label">No contexto</span>
+                                    {contextFiles.map(file => (
+                                        <button
+                                            key={file.key}
+                                            type="button"
+                                            className={`context-file-chip ${file.pinned ? 'pinned' : ''}`}
+                                            onClick={() => handleToggleContextFile(file.key)}
+                                            aria-pressed={file.pinned}
+                                            title={file.pinned
+                                                ? `${file.name} (${formatFileSize(file.size)}) é enviado a cada pergunta. Clique para desafixar.`
+                                                : `${file.name} não é mais enviado. Clique para fixar de novo.`}
+                                        >
+                                            <IconPin />
+                                            <span>{file.name}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                              {attachedFiles.length > 0 && (
                                 <div className="attachment-preview-container">
                                     {attachedFiles.map((file, index) => (
@@ -1910,28 +7291,53 @@ const App: FC = () => {
                                     <span>Refinar</span>
                                 </button>
                                 <div className="depth-selector">
-                                    <button type="button" className={`depth-button ${generationDepth === 'fast' ? 'active' : ''}`} onClick={() => setGenerationDepth('fast')} disabled={isLoading} title="Modo Rápido: Resposta direta de um único agente.">
+                                    <button type="button" className={`depth-button ${!activePipeline && generationDepth === 'fast' ? 'active' : ''}`} onClick={() => handleSelectDepth('fast')} disabled={isLoading} title="Modo Rápido: Resposta direta de um único agente.">
                                         <IconZap />
                                         <span>Rápido</span>
                                     </button>
-                                    <button type="button" className={`depth-button ${generationDepth === 'balanced' ? 'active' : ''}`} onClick={() => setGenerationDepth('balanced')} disabled={isLoading} title="Modo Balanceado: Resposta de 5 agentes.">
+                                    <button type="button" className={`depth-button ${!activePipeline && generationDepth === 'balanced' ? 'active' : ''}`} onClick={() => handleSelectDepth('balanced')} disabled={isLoading} title="Modo Balanceado: Resposta de 5 agentes.">
                                         <IconBalance />
                                         <span>Balanceado</span>
                                     </button>
-                                    <button type="button" className={`depth-button ${generationDepth === 'deep' ? 'active' : ''}`} onClick={() => setGenerationDepth('deep')} disabled={isLoading} title="Modo Profundo: Resposta de 9 agentes para máxima qualidade.">
+                                    <button type="button" className={`depth-button ${!activePipeline && generationDepth === 'deep' ? 'active' : ''}`} onClick={() => handleSelectDepth('deep')} disabled={isLoading} title="Modo Profundo: Resposta de 9 agentes para máxima qualidade.">
                                         <IconBrainCircuit />
                                         <span>Profundo</span>
                                     </button>
+                                    {activePipeline && (
+                                        <button type="button" className="depth-button active" onClick={() => setShowPipelineEditor(true)} disabled={isLoading} title={`Pipeline personalizado: ${activePipeline.stages.map(s => s.label).join(' → ')}`}>
+                                            <IconLayers />
+                                            <span>{activePipeline.name}</span>
+                                        </button>
+                                    )}
                                 </div>
+                                {settingsProfiles.length > 0 && (
+                                    <select
+                                        className={`profile-select ${isActiveProfileModified ? 'modified' : ''}`}
+                                        value={activeProfileId ?? ''}
+                                        onChange={(e) => handleApplyProfile(e.target.value || null)}
+                                        disabled={isLoading}
+                                        aria-label="Perfil de configuração"
+                                        title={isActiveProfileModified ? 'As configurações mudaram desde que o perfil foi aplicado.' : 'Perfil de configuração'}
+                                    >
+                                        <option value="">Sem perfil</option>
+                                        {settingsProfiles.map(p => <option key={p.id} value={p.id}>{p.id === activeProfileId && isActiveProfileModified ? `${p.name} *` : p.name}</option>)}
+                                    </select>
+                                )}
                                 <button type="button" className="action-button" onClick={() => setShowSettings(!showSettings)} disabled={isLoading} aria-label="Configurações">
                                     <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 0 2l-.15.08a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.38a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1 0-2l.15-.08a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"/><circle cx="12" cy="12" r="3"/></svg>
                                 </button>
                             </div>
-                            <button type="submit" className="send-button" disabled={isLoading || (!input.trim() && attachedFiles.length === 0)} aria-label="Enviar">
-                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 10.5 12 3m0 0 7.5 7.5M12 3v18" />
-                                </svg>
-                            </button>
+                            {isLoading ? (
+                                <button type="button" className="send-button stop-button" onClick={handleStop} aria-label="Parar geração" title="Parar geração">
+                                    <IconStop />
+                                </button>
+                            ) : (
+                                <button type="submit" className="send-button" disabled={!input.trim() && attachedFiles.length === 0} aria-label="Enviar">
+                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 10.5 12 3m0 0 7.5 7.5M12 3v18" />
+                                    </svg>
+                                </button>
+                            )}
                         </div>
                     </form>
                 </div>